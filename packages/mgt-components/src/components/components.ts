@@ -5,6 +5,7 @@
  * -------------------------------------------------------------------------------------------
  */
 
+import '../utils/TemplateFilters';
 import './mgt-agenda/mgt-agenda';
 import './mgt-file/mgt-file';
 import './mgt-file-list/mgt-file-list';
@@ -7,9 +7,14 @@
 
 import * as MicrosoftGraph from '@microsoft/microsoft-graph-types';
 import { customElement, html, property, TemplateResult } from 'lit-element';
-import { Providers, ProviderState, MgtTemplatedComponent, prepScopes } from '@microsoft/mgt-element';
+import {
+  LocalizationHelper,
+  Providers,
+  ProviderState,
+  MgtTemplatedComponent,
+  prepScopes
+} from '@microsoft/mgt-element';
 import '../../styles/style-helper';
-import { getDayOfWeekString, getMonthString } from '../../utils/Utils';
 import '../mgt-person/mgt-person';
 import { styles } from './mgt-agenda-css';
 import { getEventsPageIterator } from './mgt-agenda.graph';
@@ -245,6 +250,11 @@ export class MgtAgenda extends MgtTemplatedComponent {
       return this.renderLoading();
     }
 
+    // Error
+    if (this.error) {
+      return this.renderError();
+    }
+
     // No data
     if (!this.events || this.events.length === 0) {
       return this.renderNoData();
@@ -333,6 +343,22 @@ export class MgtAgenda extends MgtTemplatedComponent {
     return this.renderTemplate('no-data', null) || html``;
   }
 
+  /**
+   * Render the error state.
+   *
+   * @protected
+   * @returns {TemplateResult}
+   * @memberof MgtAgenda
+   */
+  protected renderError(): TemplateResult {
+    return (
+      this.renderTemplate('error', { error: this.error }) ||
+      html`
+        <div dir=${this.direction} class="agenda error" role="alert">${this.getErrorMessage(this.error)}</div>
+      `
+    );
+  }
+
   /**
    * Render an individual Event.
    *
@@ -626,25 +652,14 @@ export class MgtAgenda extends MgtTemplatedComponent {
       date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
     }
 
-    let hours = date.getHours();
-    const minutes = date.getMinutes();
-    const ampm = hours >= 12 ? 'PM' : 'AM';
-    hours = hours % 12;
-    hours = hours ? hours : 12;
-    const minutesStr = minutes < 10 ? '0' + minutes : minutes;
-    return `${hours}:${minutesStr} ${ampm}`;
+    return LocalizationHelper.formatDate(date, { hour: 'numeric', minute: '2-digit' });
   }
 
   private getDateHeaderFromDateTimeString(dateTimeString: string) {
     const date = new Date(dateTimeString);
     date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
 
-    const dayIndex = date.getDay();
-    const monthIndex = date.getMonth();
-    const day = date.getDate();
-    const year = date.getFullYear();
-
-    return `${getDayOfWeekString(dayIndex)}, ${getMonthString(monthIndex)} ${day}, ${year}`;
+    return LocalizationHelper.formatDate(date, { day: 'numeric', month: 'long', weekday: 'long', year: 'numeric' });
   }
 
   private getEventDuration(event: MicrosoftGraph.Event) {
@@ -661,17 +676,28 @@ export class MgtAgenda extends MgtTemplatedComponent {
     const durationMinutes = Math.round(diff / 60000);
 
     if (durationMinutes > 1440 || event.isAllDay) {
-      result = Math.ceil(durationMinutes / 1440) + 'd';
+      result = this.formatDuration(Math.ceil(durationMinutes / 1440), 'day');
     } else if (durationMinutes > 60) {
-      result = Math.round(durationMinutes / 60) + 'h';
+      result = this.formatDuration(Math.round(durationMinutes / 60), 'hour');
       const leftoverMinutes = durationMinutes % 60;
       if (leftoverMinutes) {
-        result += leftoverMinutes + 'm';
+        result += ' ' + this.formatDuration(leftoverMinutes, 'minute');
       }
     } else {
-      result = durationMinutes + 'm';
+      result = this.formatDuration(durationMinutes, 'minute');
     }
 
     return result;
   }
+
+  private formatDuration(value: number, unit: 'day' | 'hour' | 'minute'): string {
+    try {
+      // unit formatting isn't in the typings of Intl.NumberFormatOptions yet
+      const options: any = { style: 'unit', unit, unitDisplay: 'narrow' };
+      return LocalizationHelper.formatNumber(value, options);
+    } catch (e) {
+      // the browser doesn't support unit formatting
+      return LocalizationHelper.formatNumber(value) + unit[0];
+    }
+  }
 }
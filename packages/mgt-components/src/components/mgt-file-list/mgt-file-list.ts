@@ -537,6 +537,10 @@ export class MgtFileList extends MgtTemplatedComponent {
       return this.renderLoading();
     }
 
+    if (this.error) {
+      return this.renderError();
+    }
+
     if (!this.files || this.files.length === 0) {
       return this.renderNoData();
     }
@@ -577,6 +581,24 @@ export class MgtFileList extends MgtTemplatedComponent {
     );
   }
 
+  /**
+   * Render the state when loading the files failed
+   *
+   * @protected
+   * @returns {TemplateResult}
+   * @memberof MgtFileList
+   */
+  protected renderError(): TemplateResult {
+    return (
+      this.renderTemplate('error', { error: this.error }) ||
+      html`
+        <div id="file-list-wrapper" class="file-list-wrapper" dir=${this.direction}>
+          <div class="error" role="alert">${this.getErrorMessage(this.error)}</div>
+        </div>
+      `
+    );
+  }
+
   /**
    * Render the list of files.
    *
@@ -764,20 +786,21 @@ export class MgtFileList extends MgtTemplatedComponent {
    * load state into the component.
    *
    * @protected
+   * @param {AbortSignal} [signal] aborted when a newer load supersedes this one
    * @returns
    * @memberof MgtFileList
    */
-  protected async loadState() {
+  protected async loadState(signal?: AbortSignal) {
     const provider = Providers.globalProvider;
     if (!provider || provider.state === ProviderState.Loading) {
       return;
     }
 
-    if (provider.state === ProviderState.SignedOut) {
+    if (provider.state === ProviderState.SignedOut || provider.state === ProviderState.Error) {
       this.files = null;
       return;
     }
-    const graph = provider.graph.forComponent(this);
+    const graph = provider.graph.forComponent(this, signal);
     let files: DriveItem[];
     let pageIterator: GraphPageIterator<DriveItem>;
 
@@ -837,6 +860,10 @@ export class MgtFileList extends MgtTemplatedComponent {
         }
       }
 
+      if (signal && signal.aborted) {
+        return;
+      }
+
       if (pageIterator) {
         this.pageIterator = pageIterator;
         this._preloadedFiles = [...this.pageIterator.value];
@@ -857,6 +884,9 @@ export class MgtFileList extends MgtTemplatedComponent {
           while (this.pageIterator.hasNext) {
             await fetchNextAndCacheForFilesPageIterator(this.pageIterator);
           }
+          if (signal && signal.aborted) {
+            return;
+          }
           files = this.pageIterator.value;
           this._preloadedFiles = [];
         }
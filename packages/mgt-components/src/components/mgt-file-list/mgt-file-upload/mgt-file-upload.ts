@@ -10,7 +10,7 @@ import { styles } from './mgt-file-upload-css';
 import { strings } from './strings';
 import { getSvg, SvgIcon } from '../../../utils/SvgHelper';
 import { formatBytes } from '../../../utils/Utils';
-import { IGraph, MgtBaseComponent } from '@microsoft/mgt-element';
+import { IGraph, LocalizationHelper, MgtBaseComponent } from '@microsoft/mgt-element';
 import { ViewType } from '../../../graph/types';
 import { DriveItem } from '@microsoft/microsoft-graph-types';
 import {
@@ -725,7 +725,7 @@ export class MgtFileUpload extends MgtBaseComponent {
           }
           fileUploadDialog.classList.add('visible');
           this._dialogTitle = strings.fileReplaceTitle;
-          this._dialogContent = strings.fileReplace.replace('{FileName}', file.name);
+          this._dialogContent = LocalizationHelper.formatMessage(strings.fileReplace, { FileName: file.name });
           this._dialogCheckBox = strings.checkApplyAll;
           this._dialogPrimaryButton = strings.buttonReplace;
           this._dialogSecondaryButton = strings.buttonKeep;
@@ -772,7 +772,9 @@ export class MgtFileUpload extends MgtBaseComponent {
       case 'MaxFiles':
         fileUploadDialog.classList.add('visible');
         this._dialogTitle = strings.maximumFilesTitle;
-        this._dialogContent = strings.maximumFiles.split('{MaxNumber}').join(fileUploadList.maxUploadFile.toString());
+        this._dialogContent = LocalizationHelper.formatMessage(strings.maximumFiles, {
+          MaxNumber: fileUploadList.maxUploadFile
+        });
         this._dialogCheckBox = strings.checkApplyAll;
         this._dialogPrimaryButton = strings.buttonUpload;
         this._dialogSecondaryButton = strings.buttonReselect;
@@ -810,11 +812,10 @@ export class MgtFileUpload extends MgtBaseComponent {
       case 'ExcludedFileType':
         fileUploadDialog.classList.add('visible');
         this._dialogTitle = strings.fileTypeTitle;
-        this._dialogContent =
-          strings.fileType.replace('{FileName}', file.name) +
-          ' (' +
-          fileUploadList.excludedFileExtensions.join(',') +
-          ')';
+        this._dialogContent = LocalizationHelper.formatMessage(strings.fileTypeMessage, {
+          ExcludedFileExtensions: fileUploadList.excludedFileExtensions.join(','),
+          FileName: file.name
+        });
         this._dialogCheckBox = strings.checkAgain;
         this._dialogPrimaryButton = strings.buttonOk;
         this._dialogSecondaryButton = strings.buttonCancel;
@@ -851,12 +852,11 @@ export class MgtFileUpload extends MgtBaseComponent {
       case 'MaxFileSize':
         fileUploadDialog.classList.add('visible');
         this._dialogTitle = strings.maximumFileSizeTitle;
-        this._dialogContent =
-          strings.maximumFileSize
-            .replace('{FileSize}', formatBytes(fileUploadList.maxFileSize))
-            .replace('{FileName}', file.name) +
-          formatBytes(file.size) +
-          '.';
+        this._dialogContent = LocalizationHelper.formatMessage(strings.maximumFileSizeMessage, {
+          FileName: file.name,
+          FileNameSize: formatBytes(file.size),
+          FileSize: formatBytes(fileUploadList.maxFileSize)
+        });
         this._dialogCheckBox = strings.checkAgain;
         this._dialogPrimaryButton = strings.buttonOk;
         this._dialogSecondaryButton = strings.buttonCancel;
@@ -11,11 +11,14 @@ export const strings = {
   buttonUploadFile: 'Upload Files',
   maximumFilesTitle: 'Maximum files',
   maximumFiles:
-    'Sorry, the maximum number of files you can upload at once is {MaxNumber}. Do you want to upload the first {MaxNumber} files or reselect?',
+    'Sorry, the maximum number of files you can upload at once is {MaxNumber}. Do you want to upload the first {MaxNumber, plural, one {file} other {# files}} or reselect?',
   maximumFileSizeTitle: 'Maximum files size',
   maximumFileSize: 'Sorry, the maximum file size to upload is {FileSize}. The file "{FileName}" has ',
+  maximumFileSizeMessage:
+    'Sorry, the maximum file size to upload is {FileSize}. The file "{FileName}" has {FileNameSize}.',
   fileTypeTitle: 'File type',
   fileType: 'Sorry, the format of following file "{FileName}" cannot be uploaded.',
+  fileTypeMessage: 'Sorry, the format of following file "{FileName}" cannot be uploaded. ({ExcludedFileExtensions})',
   checkAgain: "Don't show again",
   checkApplyAll: 'Apply to all',
   buttonOk: 'OK',
@@ -25,7 +25,7 @@ import {
   getUserDriveItemByPath,
   getUserInsightsDriveItemById
 } from '../../graph/graph.files';
-import { getRelativeDisplayDate } from '../../utils/Utils';
+import { formatBytes, getRelativeDisplayDate } from '../../utils/Utils';
 import { OfficeGraphInsightString, ViewType } from '../../graph/types';
 import { getFileTypeIconUriByExtension } from '../../styles/fluent-icons';
 import { getSvg, SvgIcon } from '../../utils/SvgHelper';
@@ -421,6 +421,10 @@ export class MgtFile extends MgtTemplatedComponent {
       return this.renderLoading();
     }
 
+    if (!this.driveItem && this.error) {
+      return this.renderError();
+    }
+
     if (!this.driveItem) {
       return this.renderNoData();
     }
@@ -582,7 +586,7 @@ export class MgtFile extends MgtTemplatedComponent {
       return;
     }
 
-    if (provider.state === ProviderState.SignedOut) {
+    if (provider.state === ProviderState.SignedOut || provider.state === ProviderState.Error) {
       this.driveItem = null;
       return;
     }
@@ -660,7 +664,7 @@ export class MgtFile extends MgtTemplatedComponent {
           // convert size to kb, mb, gb
           let size;
           if (driveItem.size) {
-            size = this.formatBytes(driveItem.size);
+            size = formatBytes(driveItem.size);
           } else {
             size = '0';
           }
@@ -687,14 +691,4 @@ export class MgtFile extends MgtTemplatedComponent {
 
     return text;
   }
-
-  private formatBytes(bytes, decimals = 2) {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const dm = decimals < 0 ? 0 : decimals;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB', 'PB', 'EB', 'ZB', 'YB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
-  }
 }
@@ -11,6 +11,8 @@ import {
   CacheService,
   CacheStore,
   equals,
+  getRelativeGraphUrl,
+  MgtError,
   MgtTemplatedComponent,
   prepScopes,
   Providers,
@@ -194,14 +196,6 @@ export class MgtGet extends MgtTemplatedComponent {
    */
   @property({ attribute: false }) public response: any;
 
-  /**
-   *
-   * Gets or sets the error (if any) of the request
-   * @type any
-   * @memberof MgtGet
-   */
-  @property({ attribute: false }) public error: any;
-
   private isPolling: boolean = false;
   private isRefreshing: boolean = false;
 
@@ -321,7 +315,7 @@ export class MgtGet extends MgtTemplatedComponent {
         if (this.shouldRetrieveCache()) {
           cache = CacheService.getCache<CacheResponse>(schemas.get, schemas.get.stores.responses);
           const result: CacheResponse = getIsResponseCacheEnabled() ? await cache.getValue(key) : null;
-          if (result && getResponseInvalidationTime(this.cacheInvalidationPeriod) > Date.now() - result.timeCached) {
+          if (result && CacheService.isValueUsable(result, getResponseInvalidationTime(this.cacheInvalidationPeriod))) {
             response = JSON.parse(result.response);
           }
         }
@@ -335,7 +329,7 @@ export class MgtGet extends MgtTemplatedComponent {
             uri = this.response['@odata.deltaLink'];
             isDeltaLink = true;
           } else {
-            isDeltaLink = new URL(uri, 'https://graph.microsoft.com').pathname.endsWith('delta');
+            isDeltaLink = new URL(uri, provider.graph.baseUrl || Providers.baseUrl).pathname.endsWith('delta');
           }
 
           const graph = provider.graph.forComponent(this);
@@ -367,8 +361,8 @@ export class MgtGet extends MgtTemplatedComponent {
                 page['@odata.nextLink']
               ) {
                 pageCount++;
-                const nextResource = page['@odata.nextLink'].split(this.version)[1];
-                page = await graph.client.api(nextResource).version(this.version).get();
+                const nextResource = getRelativeGraphUrl(page['@odata.nextLink'], this.version);
+                page = await graph.api(nextResource).version(this.version).get();
                 if (page && page.value && page.value.length) {
                   page.value = response.value.concat(page.value);
                   response = page;
@@ -415,7 +409,7 @@ export class MgtGet extends MgtTemplatedComponent {
           this.response = response;
         }
       } catch (e) {
-        this.error = e;
+        this.error = MgtError.fromError(e);
       }
 
       if (this.response) {
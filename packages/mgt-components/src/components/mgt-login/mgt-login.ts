@@ -7,7 +7,15 @@
 
 import { customElement, html, property } from 'lit-element';
 import { classMap } from 'lit-html/directives/class-map';
-import { Providers, ProviderState, MgtTemplatedComponent } from '@microsoft/mgt-element';
+import {
+  IProviderAccount,
+  LocalizationHelper,
+  ProviderError,
+  ProviderErrorReason,
+  Providers,
+  ProviderState,
+  MgtTemplatedComponent
+} from '@microsoft/mgt-element';
 
 import { IDynamicPerson, ViewType } from '../../graph/types';
 import { MgtFlyout } from '../sub-components/mgt-flyout/mgt-flyout';
@@ -28,14 +36,17 @@ import '../../styles/style-helper';
  *
  * @fires loginInitiated - Fired when login is initiated by the user
  * @fires loginCompleted - Fired when login completes
- * @fires loginFailed - Fired when login fails
+ * @fires loginFailed - Fired when login fails (detail: {error} when the provider reports why)
  * @fires logoutInitiated - Fired when logout is initiated by the user
  * @fires logoutCompleted - Fired when logout completed
+ * @fires switchAccountInitiated - Fired when the user selects another signed in account (detail: the account)
+ * @fires switchAccountCompleted - Fired when the selected account is the active account (detail: the account)
  *
  * @template signed-in-button-content (dataContext: {personDetails, personImage})
  * @template signed-out-button-content (dataContext: null)
- * @template flyout-commands (dataContext: {handleSignOut})
+ * @template flyout-commands (dataContext: {handleSignOut, handleSignOutAll, handleAddAccount})
  * @template flyout-person-details (dataContext: {personDetails, personImage})
+ * @template login-error (dataContext: {error})
  *
  * @cssprop --font-size - {Length} Login font size
  * @cssprop --font-weight - {Length} Login font weight
@@ -103,6 +114,14 @@ export class MgtLogin extends MgtTemplatedComponent {
 
   private _image: string;
 
+  /**
+   * photos of the accounts that have been active, by account id
+   *
+   * @private
+   * @memberof MgtLogin
+   */
+  private _accountImages: { [id: string]: string } = {};
+
   constructor() {
     super();
     this._isFlyoutOpen = false;
@@ -119,27 +138,51 @@ export class MgtLogin extends MgtTemplatedComponent {
   }
 
   /**
-   * Initiate login
+   * Initiate login, also used to retry after the provider failed to sign in
    *
    * @returns {Promise<void>}
    * @memberof MgtLogin
    */
   public async login(): Promise<void> {
-    if (this.userDetails || !this.fireCustomEvent('loginInitiated')) {
+    if (this.userDetails) {
       return;
     }
 
+    await this.loginWithProvider();
+  }
+
+  /**
+   * Initiate login of another account, when the provider supports multiple accounts
+   *
+   * @returns {Promise<void>}
+   * @memberof MgtLogin
+   */
+  public async addAccount(): Promise<void> {
     const provider = Providers.globalProvider;
+    if (!provider || !provider.isMultiAccountSupportedAndEnabled) {
+      return;
+    }
 
-    if (provider && provider.login) {
-      await provider.login();
+    this.hideFlyout();
+    await this.loginWithProvider();
+  }
 
-      if (provider.state === ProviderState.SignedIn) {
-        this.fireCustomEvent('loginCompleted');
-      } else {
-        this.fireCustomEvent('loginFailed');
-      }
+  /**
+   * Make another signed in account the active account
+   *
+   * @param {IProviderAccount} account
+   * @returns {void}
+   * @memberof MgtLogin
+   */
+  public switchAccount(account: IProviderAccount): void {
+    const provider = Providers.globalProvider;
+    if (!provider || !provider.setActiveAccount || !this.fireCustomEvent('switchAccountInitiated', account)) {
+      return;
     }
+
+    this.hideFlyout();
+    provider.setActiveAccount(account);
+    this.fireCustomEvent('switchAccountCompleted', account);
   }
 
   /**
@@ -162,6 +205,29 @@ export class MgtLogin extends MgtTemplatedComponent {
     }
   }
 
+  /**
+   * Initiate logout of all signed in accounts
+   *
+   * @returns {Promise<void>}
+   * @memberof MgtLogin
+   */
+  public async logoutAll(): Promise<void> {
+    const provider = Providers.globalProvider;
+    if (!provider || !provider.logoutAll) {
+      return this.logout();
+    }
+
+    if (!this.fireCustomEvent('logoutInitiated', { allAccounts: true })) {
+      return;
+    }
+
+    await provider.logoutAll();
+    this.userDetails = null;
+    this._accountImages = {};
+    this.hideFlyout();
+    this.fireCustomEvent('logoutCompleted', { allAccounts: true });
+  }
+
   /**
    * Invoked on each update to perform rendering tasks. This method must return
    * a lit-html TemplateResult. Setting properties inside this method will *not*
@@ -173,6 +239,7 @@ export class MgtLogin extends MgtTemplatedComponent {
         <div>
           ${this.renderButton()}
         </div>
+        ${this.renderLoginError()}
         ${this.renderFlyout()}
       </div>
     `;
@@ -193,6 +260,11 @@ export class MgtLogin extends MgtTemplatedComponent {
 
         if (this.userDetails.personImage) {
           this._image = this.userDetails.personImage;
+
+          const activeAccount = provider.getActiveAccount && provider.getActiveAccount();
+          if (activeAccount) {
+            this._accountImages[activeAccount.id] = this._image;
+          }
         }
 
         this.fireCustomEvent('loginCompleted');
@@ -232,6 +304,42 @@ export class MgtLogin extends MgtTemplatedComponent {
     `;
   }
 
+  /**
+   * Render why the provider failed to sign in, if it did. Clicking the button signs in again
+   *
+   * @protected
+   * @returns
+   * @memberof MgtLogin
+   */
+  protected renderLoginError() {
+    const provider = Providers.globalProvider;
+    if (!provider || provider.state !== ProviderState.Error || this.userDetails) {
+      return null;
+    }
+
+    const error = provider.lastError;
+    return (
+      this.renderTemplate('login-error', { error }) ||
+      html`
+        <div class="error" role="alert">${this.getLoginErrorMessage(error)}</div>
+      `
+    );
+  }
+
+  /**
+   * Gets the localized message describing why the provider failed to sign in
+   *
+   * @protected
+   * @param {ProviderError} error
+   * @returns {string}
+   * @memberof MgtLogin
+   */
+  protected getLoginErrorMessage(error: ProviderError): string {
+    const reason = error ? ProviderErrorReason[error.reason] : null;
+    const key = reason ? `${reason.charAt(0).toLowerCase()}${reason.substring(1)}ErrorMessage` : null;
+    return (key && this.strings[key]) || this.strings.loginFailedErrorMessage;
+  }
+
   /**
    * Render the details flyout.
    *
@@ -270,6 +378,7 @@ export class MgtLogin extends MgtTemplatedComponent {
           <div>
             ${this.renderFlyoutPersonDetails(this.userDetails, this._image)}
           </div>
+          ${this.renderFlyoutAccounts()}
           <div class="popup-commands">
             ${this.renderFlyoutCommands()}
           </div>
@@ -295,6 +404,48 @@ export class MgtLogin extends MgtTemplatedComponent {
     );
   }
 
+  /**
+   * Render the signed in accounts other than the active account, when the provider supports multiple accounts.
+   *
+   * @protected
+   * @returns
+   * @memberof MgtLogin
+   */
+  protected renderFlyoutAccounts() {
+    const accounts = this.getOtherAccounts();
+    if (!accounts.length) {
+      return;
+    }
+
+    return html`
+      <ul class="accounts">
+        ${accounts.map(
+          account => html`
+            <li>
+              <button
+                class="account"
+                @click=${() => this.switchAccount(account)}
+                aria-label=${LocalizationHelper.formatMessage(this.strings.switchAccountAriaLabel, {
+                  account: account.username || account.name
+                })}
+              >
+                <mgt-person
+                  .personDetails=${{
+                    displayName: account.name || account.username,
+                    mail: account.username,
+                    userPrincipalName: account.username
+                  }}
+                  .personImage=${this._accountImages[account.id]}
+                  .view=${ViewType.twolines}
+                ></mgt-person>
+              </button>
+            </li>
+          `
+        )}
+      </ul>
+    `;
+  }
+
   /**
    * Render the flyout commands.
    *
@@ -303,19 +454,57 @@ export class MgtLogin extends MgtTemplatedComponent {
    * @memberof MgtLogin
    */
   protected renderFlyoutCommands() {
-    const template = this.renderTemplate('flyout-commands', { handleSignOut: () => this.logout() });
-    return (
-      template ||
-      html`
-        <ul>
-          <li>
-            <button class="popup-command" @click=${this.logout} aria-label=${this.strings.signOutLinkSubtitle}>
-              ${this.strings.signOutLinkSubtitle}
-            </button>
-          </li>
-        </ul>
-      `
-    );
+    const template = this.renderTemplate('flyout-commands', {
+      handleAddAccount: () => this.addAccount(),
+      handleSignOut: () => this.logout(),
+      handleSignOutAll: () => this.logoutAll()
+    });
+    if (template) {
+      return template;
+    }
+
+    const provider = Providers.globalProvider;
+    const isMultiAccount = provider && provider.isMultiAccountSupportedAndEnabled;
+    const hasOtherAccounts = this.getOtherAccounts().length > 0;
+    return html`
+      <ul>
+        ${
+          isMultiAccount
+            ? html`
+              <li>
+                <button
+                  class="popup-command"
+                  @click=${this.addAccount}
+                  aria-label=${this.strings.signInWithAnotherAccount}
+                >
+                  ${this.strings.signInWithAnotherAccount}
+                </button>
+              </li>
+            `
+            : null
+        }
+        <li>
+          <button class="popup-command" @click=${this.logout} aria-label=${this.strings.signOutLinkSubtitle}>
+            ${this.strings.signOutLinkSubtitle}
+          </button>
+        </li>
+        ${
+          hasOtherAccounts && provider.logoutAll
+            ? html`
+              <li>
+                <button
+                  class="popup-command"
+                  @click=${this.logoutAll}
+                  aria-label=${this.strings.signOutAllLinkSubtitle}
+                >
+                  ${this.strings.signOutAllLinkSubtitle}
+                </button>
+              </li>
+            `
+            : null
+        }
+      </ul>
+    `;
   }
 
   /**
@@ -359,6 +548,8 @@ export class MgtLogin extends MgtTemplatedComponent {
   protected clearState() {
     this.userDetails = null;
     this._image = null;
+    // the provider may have failed to sign in
+    this.requestUpdate();
   }
 
   /**
@@ -405,6 +596,55 @@ export class MgtLogin extends MgtTemplatedComponent {
     }
   }
 
+  /**
+   * Returns the signed in accounts other than the active account,
+   * or an empty array when the provider doesn't support multiple accounts
+   *
+   * @private
+   * @returns {IProviderAccount[]}
+   * @memberof MgtLogin
+   */
+  private getOtherAccounts(): IProviderAccount[] {
+    const provider = Providers.globalProvider;
+    if (!provider || !provider.isMultiAccountSupportedAndEnabled || provider.state !== ProviderState.SignedIn) {
+      return [];
+    }
+
+    const activeAccount = provider.getActiveAccount ? provider.getActiveAccount() : null;
+    return (provider.getAllAccounts() || []).filter(account => !activeAccount || account.id !== activeAccount.id);
+  }
+
+  /**
+   * Sign in with the provider, firing the login events
+   *
+   * @private
+   * @returns {Promise<void>}
+   * @memberof MgtLogin
+   */
+  private async loginWithProvider(): Promise<void> {
+    if (!this.fireCustomEvent('loginInitiated')) {
+      return;
+    }
+
+    const provider = Providers.globalProvider;
+
+    if (provider && provider.login) {
+      try {
+        await provider.login();
+      } catch (e) {
+        // the provider reports why it failed with its state
+      }
+
+      if (provider.state === ProviderState.SignedIn) {
+        this.fireCustomEvent('loginCompleted');
+      } else if (provider.state === ProviderState.Error) {
+        this.fireCustomEvent('loginFailed', { error: provider.lastError });
+      } else {
+        this.fireCustomEvent('loginFailed');
+      }
+    }
+  }
+
   private onClick() {
     if (this.userDetails) {
       this.showFlyout();
@@ -7,5 +7,13 @@
 
 export const strings = {
   signInLinkSubtitle: 'Sign In',
-  signOutLinkSubtitle: 'Sign Out'
+  signOutLinkSubtitle: 'Sign Out',
+  signInWithAnotherAccount: 'Sign in with another account',
+  signOutAllLinkSubtitle: 'Sign out of all accounts',
+  switchAccountAriaLabel: 'Switch to {account}',
+  silentSignInFailedErrorMessage: "We couldn't sign you in automatically. Select Sign In to continue.",
+  popupBlockedErrorMessage: 'The sign in window was blocked. Allow popups for this site and select Sign In again.',
+  refreshTokenExpiredErrorMessage: 'Your session has expired. Select Sign In to continue.',
+  consentDeniedErrorMessage: "The app doesn't have the permissions it needs. Select Sign In to grant them.",
+  loginFailedErrorMessage: 'Sign in failed. Select Sign In to try again.'
 };
@@ -760,6 +760,10 @@ export class MgtPeoplePicker extends MgtTemplatedComponent {
       return this.renderLoading();
     }
 
+    if (this.error) {
+      return this.renderError();
+    }
+
     let people = this._foundPeople;
 
     if (!people || people.length === 0 || this.showMax === 0) {
@@ -822,6 +826,27 @@ export class MgtPeoplePicker extends MgtTemplatedComponent {
     );
   }
 
+  /**
+   * Render the state when loading people failed.
+   *
+   * @protected
+   * @returns {TemplateResult}
+   * @memberof MgtPeoplePicker
+   */
+  protected renderError(): TemplateResult {
+    const message = this.getErrorMessage(this.error);
+    return (
+      this.renderTemplate('error', { error: this.error }) ||
+      html`
+         <div class="message-parent">
+           <div label="search-error-text" aria-label=${message} class="search-error-text" role="alert">
+             ${message}
+           </div>
+         </div>
+       `
+    );
+  }
+
   /**
    * Render the list of search results.
    *
@@ -932,14 +957,35 @@ export class MgtPeoplePicker extends MgtTemplatedComponent {
   /**
    * Async query to Graph for members of group if determined by developer.
    * set's `this.groupPeople` to those members.
+   *
+   * @param {AbortSignal} [signal] aborted when a newer search supersedes this one
    */
-  protected async loadState(): Promise<void> {
+  protected async loadState(signal?: AbortSignal): Promise<void> {
+    try {
+      await this.loadPeople(signal);
+    } catch (e) {
+      // the Graph requests of a superseded search reject once aborted
+      if (!signal || !signal.aborted) {
+        throw e;
+      }
+    }
+  }
+
+  /**
+   * Loads the people matching the user input, or the default people when there is no input
+   *
+   * @private
+   * @param {AbortSignal} [signal] aborted when a newer search supersedes this one
+   * @returns {Promise<void>}
+   * @memberof MgtPeoplePicker
+   */
+  private async loadPeople(signal?: AbortSignal): Promise<void> {
     let people = this.people;
     const input = this.userInput.toLowerCase();
     const provider = Providers.globalProvider;
 
     if (!people && provider && provider.state === ProviderState.SignedIn) {
-      const graph = provider.graph.forComponent(this);
+      const graph = provider.graph.forComponent(this, signal);
 
       if (!input.length && this._isFocused) {
         if (this.defaultPeople) {
@@ -958,7 +1004,9 @@ export class MgtPeoplePicker extends MgtTemplatedComponent {
                   this._groupFilters
                 );
               } catch (_) {
-                this._groupPeople = [];
+                if (!signal || !signal.aborted) {
+                  this._groupPeople = [];
+                }
               }
             }
             people = this._groupPeople || [];
@@ -980,6 +1028,10 @@ export class MgtPeoplePicker extends MgtTemplatedComponent {
             }
             people = groups;
           }
+
+          if (signal && signal.aborted) {
+            return;
+          }
           this.defaultPeople = people;
         }
       }
@@ -990,13 +1042,24 @@ export class MgtPeoplePicker extends MgtTemplatedComponent {
         !this.selectedPeople.length &&
         !this.defaultSelectedUsers
       ) {
-        this.defaultSelectedUsers = await getUsersForUserIds(graph, this.defaultSelectedUserIds, '', this._userFilters);
-        this.defaultSelectedGroups = await getGroupsForGroupIds(
+        const defaultSelectedUsers = await getUsersForUserIds(
+          graph,
+          this.defaultSelectedUserIds,
+          '',
+          this._userFilters
+        );
+        const defaultSelectedGroups = await getGroupsForGroupIds(
           graph,
           this.defaultSelectedGroupIds,
           this._groupFilters
         );
 
+        if (signal && signal.aborted) {
+          return;
+        }
+        this.defaultSelectedUsers = defaultSelectedUsers;
+        this.defaultSelectedGroups = defaultSelectedGroups;
+
         this.defaultSelectedGroups = this.defaultSelectedGroups.filter(group => {
           return group !== null;
         });
@@ -1079,6 +1142,9 @@ export class MgtPeoplePicker extends MgtTemplatedComponent {
         }
       }
     }
+    if (signal && signal.aborted) {
+      return;
+    }
     //people = this.getUniquePeople(people);
     this._foundPeople = this.filterPeople(people);
   }
@@ -1122,7 +1188,7 @@ export class MgtPeoplePicker extends MgtTemplatedComponent {
       return p.id !== person.id;
     });
     this.selectedPeople = filteredPersonArr;
-    this.loadState();
+    this.loadState(this.supersedeLoadState());
     this.fireCustomEvent('selectionChanged', this.selectedPeople);
   }
 
@@ -1147,7 +1213,7 @@ export class MgtPeoplePicker extends MgtTemplatedComponent {
         this.selectedPeople = [...this.selectedPeople, person];
         this.fireCustomEvent('selectionChanged', this.selectedPeople);
 
-        this.loadState();
+        this.loadState(this.supersedeLoadState());
         this._foundPeople = [];
       }
     }
@@ -1184,7 +1250,7 @@ export class MgtPeoplePicker extends MgtTemplatedComponent {
       this.input.focus();
     }
     this._showLoading = true;
-    this.loadState();
+    this.loadState(this.supersedeLoadState());
   }
 
   private lostFocus() {
@@ -1298,7 +1364,7 @@ export class MgtPeoplePicker extends MgtTemplatedComponent {
       this.clearHighlighted();
       // remove last person in selected list
       this.selectedPeople = this.selectedPeople.splice(0, this.selectedPeople.length - 1);
-      this.loadState();
+      this.loadState(this.supersedeLoadState());
       this.hideFlyout();
       // fire selected people changed event
       this.fireCustomEvent('selectionChanged', this.selectedPeople);
@@ -1362,9 +1428,12 @@ export class MgtPeoplePicker extends MgtTemplatedComponent {
           this._showLoading = true;
         }, 50);
 
-        await this.loadState();
-        clearTimeout(loadingTimeout);
-        this._showLoading = false;
+        try {
+          await this.loadState(this.supersedeLoadState());
+        } finally {
+          clearTimeout(loadingTimeout);
+          this._showLoading = false;
+        }
         this.showFlyout();
 
         this._arrowSelectionCount = 0;
@@ -1542,7 +1611,7 @@ export class MgtPeoplePicker extends MgtTemplatedComponent {
     this.selectedPeople = this.selectedPeople.splice(0, this.selectedPeople.length - this._highlightedUsers.length);
     this._highlightedUsers = [];
     this._currentHighlightedUserPos = 0;
-    this.loadState();
+    this.loadState(this.supersedeLoadState());
     this.hideFlyout();
     this.fireCustomEvent('selectionChanged', this.selectedPeople);
   }
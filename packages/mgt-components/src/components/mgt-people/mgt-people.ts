@@ -12,11 +12,18 @@ import { getPeople, getPeopleFromResource, PersonType } from '../../graph/graph.
 import { getUsersPresenceByPeople } from '../../graph/graph.presence';
 import { findGroupMembers, getUsersForPeopleQueries, getUsersForUserIds } from '../../graph/graph.user';
 import { IDynamicPerson } from '../../graph/types';
-import { Providers, ProviderState, MgtTemplatedComponent, arraysAreEqual } from '@microsoft/mgt-element';
+import {
+  Providers,
+  ProviderState,
+  MgtTemplatedComponent,
+  arraysAreEqual,
+  LocalizationHelper
+} from '@microsoft/mgt-element';
 import '../../styles/style-helper';
 import { PersonCardInteraction } from './../PersonCardInteraction';
 import { styles } from './mgt-people-css';
 import { MgtPerson } from '../mgt-person/mgt-person';
+import { strings } from './strings';
 
 export { PersonCardInteraction } from './../PersonCardInteraction';
 
@@ -40,6 +47,17 @@ export class MgtPeople extends MgtTemplatedComponent {
     return styles;
   }
 
+  /**
+   * Strings of the component, localized with LocalizationHelper
+   *
+   * @readonly
+   * @protected
+   * @memberof MgtPeople
+   */
+  protected get strings() {
+    return strings;
+  }
+
   /**
    * determines if agenda events come from specific group
    * @type {string}
@@ -298,6 +316,10 @@ export class MgtPeople extends MgtTemplatedComponent {
       return this.renderLoading();
     }
 
+    if (this.error) {
+      return this.renderError();
+    }
+
     if (!this.people || this.people.length === 0) {
       return this.renderNoData();
     }
@@ -351,6 +373,7 @@ export class MgtPeople extends MgtTemplatedComponent {
    */
   protected renderOverflow(): TemplateResult {
     const extra = this.people.length - this.showMax;
+    const ariaLabel = LocalizationHelper.formatMessage(this.strings.overflowAriaLabel, { count: extra });
     return (
       this.renderTemplate('overflow', {
         extra,
@@ -358,7 +381,9 @@ export class MgtPeople extends MgtTemplatedComponent {
         people: this.people
       }) ||
       html`
-        <li tabindex=0 aria-label="and ${extra} more attendees" class="overflow"><span>+${extra}<span></li>
+        <li tabindex=0 aria-label=${ariaLabel} class="overflow">
+          <span>${LocalizationHelper.formatMessage(this.strings.overflowText, { count: extra })}</span>
+        </li>
       `
     );
   }
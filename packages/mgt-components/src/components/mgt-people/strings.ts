@@ -0,0 +1,11 @@
+/**
+ * -------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation.  All Rights Reserved.  Licensed under the MIT License.
+ * See License in the project root for license information.
+ * -------------------------------------------------------------------------------------------
+ */
+
+export const strings = {
+  overflowText: '+{count}',
+  overflowAriaLabel: 'and {count, plural, one {# more attendee} other {# more attendees}}'
+};
@@ -79,7 +79,9 @@ export async function getPersonCardGraphData(
 
   if (response) {
     for (const [key, value] of response) {
-      data[key] = value.content.value || value.content;
+      if (value.ok && value.content) {
+        data[key] = value.content.value || value.content;
+      }
     }
   }
 
@@ -420,7 +420,7 @@ export class MgtPersonCard extends MgtTemplatedComponent {
   protected render() {
     // Handle no data
     if (!this.internalPersonDetails) {
-      return this.renderNoData();
+      return this.error ? this.renderError() : this.renderNoData();
     }
 
     const person = this.internalPersonDetails;
@@ -633,7 +633,7 @@ export class MgtPersonCard extends MgtTemplatedComponent {
     // load sections when details are expanded
     // when not singed in
     const provider = Providers.globalProvider;
-    if (provider.state === ProviderState.SignedOut) {
+    if (provider.state === ProviderState.SignedOut || provider.state === ProviderState.Error) {
       this.loadSections();
     }
 
@@ -7,6 +7,7 @@
 
 import { EducationalActivity, PersonAnnualEvent, PersonInterest, Profile } from '@microsoft/microsoft-graph-types-beta';
 import { customElement, html, TemplateResult } from 'lit-element';
+import { LocalizationHelper } from '@microsoft/mgt-element';
 import { BasePersonCardSection } from '../BasePersonCardSection';
 import { getSvg, SvgIcon } from '../../../../utils/SvgHelper';
 import { styles } from './mgt-person-card-profile-css';
@@ -474,7 +475,7 @@ export class MgtPersonCardProfile extends BasePersonCardSection {
   }
 
   private getDisplayDate(date: Date): string {
-    return date.toLocaleString('default', {
+    return LocalizationHelper.formatDate(date, {
       day: 'numeric',
       month: 'long'
     });
@@ -538,7 +539,9 @@ export class MgtPersonCardProfile extends BasePersonCardSection {
         overflowToken.classList.add('token-list__item');
         overflowToken.classList.add('token-list__item--show-overflow');
         overflowToken.tabIndex = 0;
-        overflowToken.innerText = `+ ${overflowItems.length} more`;
+        overflowToken.innerText = LocalizationHelper.formatMessage(this.strings.overflowText, {
+          count: overflowItems.length
+        });
 
         // On click or enter(accessibility), remove [+n more] token and reveal the hidden overflow tokens.
         const revealOverflow = () => {
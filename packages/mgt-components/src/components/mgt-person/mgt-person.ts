@@ -561,7 +561,7 @@ export class MgtPerson extends MgtTemplatedComponent {
     const presence = this.personPresence || this._fetchedPresence;
 
     if (!person && !image) {
-      return this.renderNoData();
+      return this.error ? this.renderError() : this.renderNoData();
     }
     if (!(person && person.personImage) && image) {
       person.personImage = image;
@@ -654,6 +654,33 @@ export class MgtPerson extends MgtTemplatedComponent {
     `;
   }
 
+  /**
+   * Render the state when loading the person failed
+   *
+   * @protected
+   * @returns {TemplateResult}
+   * @memberof MgtPerson
+   */
+  protected renderError(): TemplateResult {
+    const errorTemplate = this.renderTemplate('error', { error: this.error });
+    if (errorTemplate) {
+      return errorTemplate;
+    }
+
+    const avatarClasses = {
+      'avatar-icon': true,
+      error: true,
+      'ms-Icon': true,
+      'ms-Icon--Contact': true,
+      small: !this.isLargeAvatar()
+    };
+    const message = this.getErrorMessage(this.error);
+
+    return html`
+      <i class=${classMap(avatarClasses)} title=${message} aria-label=${message} role="img"></i>
+    `;
+  }
+
   /**
    * Render the image part of the person template.
    * If the image is unavailable, the person's initials will be used instead.
@@ -1001,7 +1028,7 @@ export class MgtPerson extends MgtTemplatedComponent {
       return;
     }
 
-    if (provider && provider.state === ProviderState.SignedOut) {
+    if (provider && (provider.state === ProviderState.SignedOut || provider.state === ProviderState.Error)) {
       this.personDetailsInternal = null;
       return;
     }
@@ -142,6 +142,10 @@ export abstract class MgtTasksBase extends MgtTemplatedComponent {
       return this.renderLoadingTask();
     }
 
+    if (this.error) {
+      return this.renderError();
+    }
+
     const headerTemplate = !this.hideHeader ? this.renderHeader() : null;
     const newTaskTemplate = this._isNewTaskVisible ? this.renderNewTaskPanel() : null;
     const tasksTemplate = this.isLoadingState ? this.renderLoadingTask() : this.renderTasks();
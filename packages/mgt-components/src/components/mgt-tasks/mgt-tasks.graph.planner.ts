@@ -5,7 +5,7 @@
  * -------------------------------------------------------------------------------------------
  */
 
-import { IGraph, prepScopes } from '@microsoft/mgt-element';
+import { IGraph, OfflineService, prepScopes } from '@microsoft/mgt-element';
 import { PlannerBucket, PlannerPlan, PlannerTask } from '@microsoft/microsoft-graph-types';
 
 /**
@@ -52,12 +52,12 @@ export function assignPeopleToPlannerTask(graph: IGraph, taskId: string, people:
  * @memberof Graph
  */
 export function removePlannerTask(graph: IGraph, taskId: string, eTag: string): Promise<any> {
-  return graph
-    .api(`/planner/tasks/${taskId}`)
-    .header('Cache-Control', 'no-store')
-    .header('If-Match', eTag)
-    .middlewareOptions(prepScopes('Group.ReadWrite.All'))
-    .delete();
+  return OfflineService.sendRequest(graph, {
+    headers: { 'Cache-Control': 'no-store', 'If-Match': eTag },
+    method: 'DELETE',
+    resource: `/planner/tasks/${taskId}`,
+    scopes: ['Group.ReadWrite.All']
+  });
 }
 
 /**
@@ -100,6 +100,7 @@ export function setPlannerTaskIncomplete(graph: IGraph, taskId: string, eTag: st
 
 /**
  * async promise, allows developer to set details of planner task associated with a taskId
+ * The update is queued in the outbox when offline mode is enabled and the browser is offline
  *
  * @param {string} taskId
  * @param {(PlannerTask)} details
@@ -113,12 +114,13 @@ export async function setPlannerTaskDetails(
   details: PlannerTask,
   eTag: string
 ): Promise<any> {
-  return await graph
-    .api(`/planner/tasks/${taskId}`)
-    .header('Cache-Control', 'no-store')
-    .middlewareOptions(prepScopes('Group.ReadWrite.All'))
-    .header('If-Match', eTag)
-    .patch(JSON.stringify(details));
+  return await OfflineService.sendRequest(graph, {
+    body: JSON.stringify(details),
+    headers: { 'Cache-Control': 'no-store', 'If-Match': eTag },
+    method: 'PATCH',
+    resource: `/planner/tasks/${taskId}`,
+    scopes: ['Group.ReadWrite.All']
+  });
 }
 
 /**
@@ -5,7 +5,7 @@
  * -------------------------------------------------------------------------------------------
  */
 
-import { IGraph, prepScopes } from '@microsoft/mgt-element';
+import { IGraph, OfflineService, prepScopes } from '@microsoft/mgt-element';
 import { OutlookTask, OutlookTaskFolder, OutlookTaskGroup } from '@microsoft/microsoft-graph-types-beta';
 
 /**
@@ -109,12 +109,12 @@ export async function getSingleTodoGroup(graph: IGraph, groupId: string): Promis
  * @memberof BetaGraph
  */
 export async function removeTodoTask(graph: IGraph, taskId: string, eTag: string): Promise<any> {
-  return await graph
-    .api(`/me/outlook/tasks/${taskId}`)
-    .header('Cache-Control', 'no-store')
-    .header('If-Match', eTag)
-    .middlewareOptions(prepScopes('Tasks.ReadWrite'))
-    .delete();
+  return await OfflineService.sendRequest(graph, {
+    headers: { 'Cache-Control': 'no-store', 'If-Match': eTag },
+    method: 'DELETE',
+    resource: `/me/outlook/tasks/${taskId}`,
+    scopes: ['Tasks.ReadWrite']
+  });
 }
 
 /**
@@ -159,18 +159,20 @@ export async function setTodoTaskIncomplete(graph: IGraph, taskId: string, eTag:
 
 /**
  * async promise, allows developer to redefine to-do Task details associated with a taskId
+ * The update is queued in the outbox when offline mode is enabled and the browser is offline
  *
  * @param {string} taskId
  * @param {*} task
  * @param {string} eTag
- * @returns {Promise<OutlookTask>}
+ * @returns {Promise<OutlookTask>} the updated task, or undefined when the update was queued
  * @memberof BetaGraph
  */
 export async function setTodoTaskDetails(graph: IGraph, taskId: string, task: any, eTag: string): Promise<OutlookTask> {
-  return await graph
-    .api(`/me/outlook/tasks/${taskId}`)
-    .header('Cache-Control', 'no-store')
-    .header('If-Match', eTag)
-    .middlewareOptions(prepScopes('Tasks.ReadWrite'))
-    .patch(task);
+  return await OfflineService.sendRequest(graph, {
+    body: task,
+    headers: { 'Cache-Control': 'no-store', 'If-Match': eTag },
+    method: 'PATCH',
+    resource: `/me/outlook/tasks/${taskId}`,
+    scopes: ['Tasks.ReadWrite']
+  });
 }
@@ -10,7 +10,13 @@ import { Contact, OutlookTask, OutlookTaskFolder } from '@microsoft/microsoft-gr
 import { customElement, html, property } from 'lit-element';
 import { classMap } from 'lit-html/directives/class-map';
 import { repeat } from 'lit-html/directives/repeat';
-import { ComponentMediaQuery, Providers, ProviderState, MgtTemplatedComponent } from '@microsoft/mgt-element';
+import {
+  ComponentMediaQuery,
+  MgtTemplatedComponent,
+  OfflineService,
+  Providers,
+  ProviderState
+} from '@microsoft/mgt-element';
 import { getShortDateString } from '../../utils/Utils';
 import { MgtPeoplePicker } from '../mgt-people-picker/mgt-people-picker';
 import { PersonCardInteraction } from './../PersonCardInteraction';
@@ -461,6 +467,10 @@ export class MgtTasks extends MgtTemplatedComponent {
    * trigger the element to update.
    */
   protected render() {
+    if (this.error) {
+      return this.renderError();
+    }
+
     let tasks = this._tasks
       .filter(task => this.isTaskInSelectedGroupFilter(task))
       .filter(task => this.isTaskInSelectedFolderFilter(task))
@@ -658,7 +668,12 @@ export class MgtTasks extends MgtTemplatedComponent {
     await ts.setTaskComplete(task.id, task.eTag);
     this.fireCustomEvent('taskChanged', task);
 
-    await this.requestStateUpdate();
+    if (OfflineService.isOnline) {
+      await this.requestStateUpdate();
+    } else {
+      // the change waits in the outbox, show it until the tasks can be reloaded
+      task.completed = true;
+    }
     this._loadingTasks = this._loadingTasks.filter(id => id !== task.id);
   }
 
@@ -672,7 +687,11 @@ export class MgtTasks extends MgtTemplatedComponent {
     await ts.setTaskIncomplete(task.id, task.eTag);
     this.fireCustomEvent('taskChanged', task);
 
-    await this.requestStateUpdate();
+    if (OfflineService.isOnline) {
+      await this.requestStateUpdate();
+    } else {
+      task.completed = false;
+    }
     this._loadingTasks = this._loadingTasks.filter(id => id !== task.id);
   }
 
@@ -686,8 +705,11 @@ export class MgtTasks extends MgtTemplatedComponent {
     await ts.removeTask(task.id, task.eTag);
     this.fireCustomEvent('taskRemoved', task);
 
-    await this.requestStateUpdate();
-    this._hiddenTasks = this._hiddenTasks.filter(id => id !== task.id);
+    // while offline, the task stays hidden until the tasks can be reloaded
+    if (OfflineService.isOnline) {
+      await this.requestStateUpdate();
+      this._hiddenTasks = this._hiddenTasks.filter(id => id !== task.id);
+    }
   }
 
   private async assignPeople(task: ITask, people: Array<User | Person | Contact>) {
@@ -454,6 +454,10 @@ export class MgtTeamsChannelPicker extends MgtTemplatedComponent {
    * @memberof MgtTeamsChannelPicker
    */
   protected renderDropdown() {
+    if (this.error) {
+      return this.renderError();
+    }
+
     if (this.isLoadingState || !this._treeViewState) {
       return this.renderLoading();
     }
@@ -589,21 +593,23 @@ export class MgtTeamsChannelPicker extends MgtTemplatedComponent {
   }
 
   /**
-   * Renders an error message when no channel or teams match the query
+   * Renders an error message when loading the teams failed
+   * or when no channel or teams match the query
    *
    * @protected
    * @returns
    * @memberof MgtTeamsChannelPicker
    */
   protected renderError(): TemplateResult {
-    const template = this.renderTemplate('error', null, 'error');
+    const template = this.renderTemplate('error', { error: this.error }, 'error');
+    const message = this.error ? this.getErrorMessage(this.error) : this.strings.noResultsFound;
 
     return (
       template ||
       html`
         <div class="message-parent">
-          <div label="search-error-text" aria-label="We didn't find any matches." class="search-error-text">
-            ${this.strings.noResultsFound}
+          <div label="search-error-text" aria-label=${message} class="search-error-text" role="alert">
+            ${message}
           </div>
         </div>
       `
@@ -6,7 +6,7 @@
  */
 
 import { DateTimeTimeZone, ItemBody, PatternedRecurrence } from '@microsoft/microsoft-graph-types';
-import { IGraph, prepScopes } from '@microsoft/mgt-element';
+import { IGraph, OfflineService, prepScopes } from '@microsoft/mgt-element';
 
 // tslint:disable
 export interface LinkedResource {
@@ -182,6 +182,7 @@ export async function createTodoTaskList(graph: IGraph, listData: { displayName:
 
 /**
  * Delete a todo task.
+ * The deletion is queued in the outbox when offline mode is enabled and the browser is offline
  *
  * @export
  * @param {IGraph} graph
@@ -190,11 +191,12 @@ export async function createTodoTaskList(graph: IGraph, listData: { displayName:
  * @returns {Promise<void>}
  */
 export async function deleteTodoTask(graph: IGraph, listId: string, taskId: string): Promise<void> {
-  await graph
-    .api(`/me/todo/lists/${listId}/tasks/${taskId}`)
-    .header('Cache-Control', 'no-store')
-    .middlewareOptions(prepScopes('Tasks.ReadWrite'))
-    .delete();
+  await OfflineService.sendRequest(graph, {
+    headers: { 'Cache-Control': 'no-store' },
+    method: 'DELETE',
+    resource: `/me/todo/lists/${listId}/tasks/${taskId}`,
+    scopes: ['Tasks.ReadWrite']
+  });
 }
 
 /**
@@ -215,13 +217,14 @@ export async function deleteTodoTaskList(graph: IGraph, listId: string): Promise
 
 /**
  * Update a todo task.
+ * The update is queued in the outbox when offline mode is enabled and the browser is offline
  *
  * @export
  * @param {IGraph} graph
  * @param {string} listId
  * @param {string} taskId
  * @param {TodoTask} taskData
- * @returns {Promise<TodoTask>}
+ * @returns {Promise<TodoTask>} the updated task, or taskData when the update was queued
  */
 export async function updateTodoTask(
   graph: IGraph,
@@ -229,13 +232,15 @@ export async function updateTodoTask(
   taskId: string,
   taskData: TodoTask
 ): Promise<TodoTask> {
-  const task = await graph
-    .api(`/me/todo/lists/${listId}/tasks/${taskId}`)
-    .header('Cache-Control', 'no-store')
-    .middlewareOptions(prepScopes('Tasks.ReadWrite'))
-    .patch(taskData);
+  const task: TodoTask = await OfflineService.sendRequest(graph, {
+    body: taskData,
+    headers: { 'Cache-Control': 'no-store' },
+    method: 'PATCH',
+    resource: `/me/todo/lists/${listId}/tasks/${taskId}`,
+    scopes: ['Tasks.ReadWrite']
+  });
 
-  return task;
+  return task || taskData;
 }
 
 /**
@@ -6,7 +6,9 @@
  */
 
 /**
- * All schemas and stores for caching component calls
+ * All schemas and stores for caching component calls.
+ * Use CacheService.setStorageAdapter(adapter, schemas.<schema>.name)
+ * to persist a single schema in a different storage backend
  */
 export const schemas = {
   presence: {
@@ -53,6 +55,7 @@ export const schemas = {
   },
   get: {
     name: 'responses',
+    config: 'response',
     stores: {
       responses: 'responses'
     },
@@ -72,6 +75,7 @@ export const schemas = {
   },
   fileLists: {
     name: 'file-lists',
+    config: 'fileLists',
     stores: {
       fileLists: 'fileLists',
       insightfileLists: 'insightfileLists'
@@ -5,7 +5,15 @@
  * -------------------------------------------------------------------------------------------
  */
 
-import { CacheItem, CacheService, CacheStore, GraphPageIterator, IGraph, prepScopes } from '@microsoft/mgt-element';
+import {
+  CacheItem,
+  CacheService,
+  CacheStore,
+  getRelativeGraphUrl,
+  GraphPageIterator,
+  IGraph,
+  prepScopes
+} from '@microsoft/mgt-element';
 import { DriveItem, UploadSession } from '@microsoft/microsoft-graph-types';
 import { schemas } from './cacheStores';
 import { ResponseType } from '@microsoft/microsoft-graph-client';
@@ -973,7 +981,7 @@ export async function getFilesByQueries(graph: IGraph, fileQueries: string[]): P
       cachedFile = await cache.getValue(fileQuery); // todo
     }
 
-    if (getIsFilesCacheEnabled() && cachedFile && getFileInvalidationTime() > Date.now() - cachedFile.timeCached) {
+    if (getIsFilesCacheEnabled() && cachedFile && CacheService.isValueUsable(cachedFile, getFileInvalidationTime())) {
       files.push(JSON.parse(cachedFile.file));
     } else if (fileQuery !== '') {
       batch.get(fileQuery, fileQuery, scopes);
@@ -1073,7 +1081,7 @@ async function getFileFromCache(cache: CacheStore<CacheFile>, key: string) {
   if (getIsFilesCacheEnabled()) {
     const file = await cache.getValue(key);
 
-    if (file && getFileInvalidationTime() > Date.now() - file.timeCached) {
+    if (file && CacheService.isValueUsable(file, getFileInvalidationTime())) {
       const cachedFile = JSON.parse(file.file);
       return cachedFile;
     }
@@ -1090,7 +1098,7 @@ export async function getFileListFromCache(cache: CacheStore<CacheFileList>, sto
   if (getIsFileListsCacheEnabled()) {
     const fileList = await cache.getValue(key);
 
-    if (fileList && getFileListInvalidationTime() > Date.now() - fileList.timeCached) {
+    if (fileList && CacheService.isValueUsable(fileList, getFileListInvalidationTime())) {
       return fileList;
     }
   }
@@ -1110,9 +1118,7 @@ export async function fetchNextAndCacheForFilesPageIterator(filesPageIterator) {
     cache = CacheService.getCache<CacheFileList>(schemas.fileLists, schemas.fileLists.stores.fileLists);
 
     // match only the endpoint (after version number and before OData query params) e.g. /me/drive/root/children
-    const reg = /(graph.microsoft.com\/(v1.0|beta))(.*?)(?=\?)/gi;
-    const matches = reg.exec(nextLink);
-    const key = matches[3];
+    const key = getRelativeGraphUrl(nextLink, filesPageIterator._version).split('?')[0];
 
     cache.putValue(key, { files: filesPageIterator.value, nextLink: filesPageIterator._nextLink });
   }
@@ -106,7 +106,7 @@ export async function findGroups(
   if (getIsGroupsCacheEnabled()) {
     cache = CacheService.getCache(schemas.groups, schemas.groups.stores.groupsQuery);
     const cacheGroupQuery = await cache.getValue(key);
-    if (cacheGroupQuery && getGroupsInvalidationTime() > Date.now() - cacheGroupQuery.timeCached) {
+    if (cacheGroupQuery && CacheService.isValueUsable(cacheGroupQuery, getGroupsInvalidationTime())) {
       if (cacheGroupQuery.top >= top) {
         // if request is less than the cache's requests, return a slice of the results
         return cacheGroupQuery.groups.map(x => JSON.parse(x)).slice(0, top + 1);
@@ -161,8 +161,9 @@ export async function findGroups(
       responses = await batch.executeAll();
 
       for (let i = 0; i < filterGroups.length; i++) {
-        if (responses.get(filterGroups[i]).content.value) {
-          for (let group of responses.get(filterGroups[i]).content.value) {
+        const response = responses.get(filterGroups[i]);
+        if (response && response.ok && response.content.value) {
+          for (let group of response.content.value) {
             let repeat = batchedResult.filter(batchedGroup => batchedGroup.id === group.id);
             if (repeat.length === 0) {
               batchedResult.push(group);
@@ -239,7 +240,7 @@ export async function findGroupsFromGroup(
   if (getIsGroupsCacheEnabled()) {
     cache = CacheService.getCache(schemas.groups, schemas.groups.stores.groupsQuery);
     const cacheGroupQuery = await cache.getValue(key);
-    if (cacheGroupQuery && getGroupsInvalidationTime() > Date.now() - cacheGroupQuery.timeCached) {
+    if (cacheGroupQuery && CacheService.isValueUsable(cacheGroupQuery, getGroupsInvalidationTime())) {
       if (cacheGroupQuery.top >= top) {
         // if request is less than the cache's requests, return a slice of the results
         return cacheGroupQuery.groups.map(x => JSON.parse(x)).slice(0, top + 1);
@@ -313,7 +314,7 @@ export async function getGroup(graph: IGraph, id: string, requestedProps?: strin
     const group = await cache.getValue(id);
 
     // is it stored and is timestamp good?
-    if (group && getGroupsInvalidationTime() > Date.now() - group.timeCached) {
+    if (group && CacheService.isValueUsable(group, getGroupsInvalidationTime())) {
       const cachedData = group.group ? JSON.parse(group.group) : null;
       const uniqueProps =
         requestedProps && cachedData ? requestedProps.filter(prop => !Object.keys(cachedData).includes(prop)) : null;
@@ -369,7 +370,7 @@ export async function getGroupsForGroupIds(
     if (getIsGroupsCacheEnabled()) {
       group = await cache.getValue(id);
     }
-    if (group && getGroupsInvalidationTime() > Date.now() - group.timeCached) {
+    if (group && CacheService.isValueUsable(group, getGroupsInvalidationTime())) {
       groupDict[id] = group.group ? JSON.parse(group.group) : null;
     } else if (id !== '') {
       let apiUrl: string = `/groups/${id}`;
@@ -5,7 +5,7 @@
  * -------------------------------------------------------------------------------------------
  */
 
-import { IGraph, prepScopes, CacheItem, CacheService, CacheStore } from '@microsoft/mgt-element';
+import { IGraph, prepScopes, CacheItem, CacheService, CacheStore, getRelativeGraphUrl } from '@microsoft/mgt-element';
 import { Contact, Person, User } from '@microsoft/microsoft-graph-types';
 import { extractEmailAddress } from '../utils/Utils';
 import { schemas } from './cacheStores';
@@ -116,7 +116,7 @@ export async function findPeople(
   if (getIsPeopleCacheEnabled()) {
     cache = CacheService.getCache<CachePeopleQuery>(schemas.people, schemas.people.stores.peopleQuery);
     const result: CachePeopleQuery = getIsPeopleCacheEnabled() ? await cache.getValue(cacheKey) : null;
-    if (result && getPeopleInvalidationTime() > Date.now() - result.timeCached) {
+    if (result && CacheService.isValueUsable(result, getPeopleInvalidationTime())) {
       return result.results.map(peopleStr => JSON.parse(peopleStr));
     }
   }
@@ -175,7 +175,7 @@ export async function getPeople(
     cache = CacheService.getCache<CachePeopleQuery>(schemas.people, schemas.people.stores.peopleQuery);
     const cacheRes = await cache.getValue(cacheKey);
 
-    if (cacheRes && getPeopleInvalidationTime() > Date.now() - cacheRes.timeCached) {
+    if (cacheRes && CacheService.isValueUsable(cacheRes, getPeopleInvalidationTime())) {
       return cacheRes.results.map(ppl => JSON.parse(ppl));
     }
   }
@@ -237,7 +237,7 @@ export async function findContactsByEmail(graph: IGraph, email: string): Promise
     cache = CacheService.getCache<CachePerson>(schemas.people, schemas.people.stores.contacts);
     const contact = await cache.getValue(email);
 
-    if (contact && getPeopleInvalidationTime() > Date.now() - contact.timeCached) {
+    if (contact && CacheService.isValueUsable(contact, getPeopleInvalidationTime())) {
       return JSON.parse(contact.person);
     }
   }
@@ -276,7 +276,7 @@ export async function getPeopleFromResource(
   if (getIsPeopleCacheEnabled()) {
     cache = CacheService.getCache<CachePeopleQuery>(schemas.people, schemas.people.stores.peopleQuery);
     const result: CachePeopleQuery = await cache.getValue(key);
-    if (result && getPeopleInvalidationTime() > Date.now() - result.timeCached) {
+    if (result && CacheService.isValueUsable(result, getPeopleInvalidationTime())) {
       return result.results.map(peopleStr => JSON.parse(peopleStr));
     }
   }
@@ -295,8 +295,8 @@ export async function getPeopleFromResource(
 
     while (page && page['@odata.nextLink']) {
       pageCount++;
-      const nextResource = page['@odata.nextLink'].split(version)[1];
-      page = await graph.client.api(nextResource).version(version).get();
+      const nextResource = getRelativeGraphUrl(page['@odata.nextLink'], version);
+      page = await graph.api(nextResource).version(version).get();
       if (page && page.value && page.value.length) {
         page.value = response.value.concat(page.value);
         response = page;
@@ -84,7 +84,7 @@ export async function getContactPhoto(graph: IGraph, contactId: string): Promise
   if (getIsPhotosCacheEnabled()) {
     cache = CacheService.getCache<CachePhoto>(schemas.photos, schemas.photos.stores.contacts);
     photoDetails = await cache.getValue(contactId);
-    if (photoDetails && getPhotoInvalidationTime() > Date.now() - photoDetails.timeCached) {
+    if (photoDetails && CacheService.isValueUsable(photoDetails, getPhotoInvalidationTime())) {
       return photoDetails.photo;
     }
   }
@@ -109,7 +109,7 @@ export async function getUserPhoto(graph: IGraph, userId: string): Promise<strin
   if (getIsPhotosCacheEnabled()) {
     cache = CacheService.getCache<CachePhoto>(schemas.photos, schemas.photos.stores.users);
     photoDetails = await cache.getValue(userId);
-    if (photoDetails && getPhotoInvalidationTime() > Date.now() - photoDetails.timeCached) {
+    if (photoDetails && CacheService.isValueUsable(photoDetails, getPhotoInvalidationTime())) {
       return photoDetails.photo;
     } else if (photoDetails) {
       // there is a photo in the cache, but it's stale
@@ -148,7 +148,7 @@ export async function myPhoto(graph: IGraph): Promise<string> {
   if (getIsPhotosCacheEnabled()) {
     cache = CacheService.getCache<CachePhoto>(schemas.photos, schemas.photos.stores.users);
     photoDetails = await cache.getValue('me');
-    if (photoDetails && getPhotoInvalidationTime() > Date.now() - photoDetails.timeCached) {
+    if (photoDetails && CacheService.isValueUsable(photoDetails, getPhotoInvalidationTime())) {
       return photoDetails.photo;
     }
   }
@@ -240,7 +240,7 @@ export async function getGroupImage(graph: IGraph, group: any, useContactsApis:
   if (getIsPhotosCacheEnabled()) {
     cache = CacheService.getCache<CachePhoto>(schemas.photos, schemas.photos.stores.groups);
     photoDetails = await cache.getValue(groupId);
-    if (photoDetails && getPhotoInvalidationTime() > Date.now() - photoDetails.timeCached) {
+    if (photoDetails && CacheService.isValueUsable(photoDetails, getPhotoInvalidationTime())) {
       return photoDetails.photo;
     } else if (photoDetails) {
       // there is a photo in the cache, but it's stale
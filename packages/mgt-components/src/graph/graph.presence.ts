@@ -46,7 +46,7 @@ export async function getUserPresence(graph: IGraph, userId?: string): Promise<P
   if (getIsPresenceCacheEnabled()) {
     cache = CacheService.getCache(schemas.presence, schemas.presence.stores.presence);
     const presence = await cache.getValue(userId || 'me');
-    if (presence && getPresenceInvalidationTime() > Date.now() - presence.timeCached) {
+    if (presence && CacheService.isValueUsable(presence, getPresenceInvalidationTime())) {
       return JSON.parse(presence.presence);
     }
   }
@@ -96,7 +96,7 @@ export async function getUsersPresenceByPeople(graph: IGraph, people?: IDynamicP
       if (
         getIsPresenceCacheEnabled() &&
         presence &&
-        getPresenceInvalidationTime() > Date.now() - (await presence).timeCached
+        CacheService.isValueUsable(await presence, getPresenceInvalidationTime())
       ) {
         peoplePresence[id] = JSON.parse(presence.presence);
       } else {
@@ -58,7 +58,7 @@ export async function getUsers(graph: IGraph, userFilters: string = '', top: num
   if (getIsUsersCacheEnabled()) {
     cache = CacheService.getCache<CacheUserQuery>(schemas.users, schemas.users.stores.userFilters);
     const cacheRes = await cache.getValue(cacheKey);
-    if (cacheRes && getUserInvalidationTime() > Date.now() - cacheRes.timeCached) {
+    if (cacheRes && CacheService.isValueUsable(cacheRes, getUserInvalidationTime())) {
       return cacheRes.results.map(userStr => JSON.parse(userStr));
     }
   }
@@ -90,7 +90,7 @@ export async function getMe(graph: IGraph, requestedProps?: string[]): Promise<U
     cache = CacheService.getCache<CacheUser>(schemas.users, schemas.users.stores.users);
     const me = await cache.getValue('me');
 
-    if (me && getUserInvalidationTime() > Date.now() - me.timeCached) {
+    if (me && CacheService.isValueUsable(me, getUserInvalidationTime())) {
       const cachedData = JSON.parse(me.user);
       const uniqueProps = requestedProps
         ? requestedProps.filter(prop => !Object.keys(cachedData).includes(prop))
@@ -131,7 +131,7 @@ export async function getUser(graph: IGraph, userPrincipleName: string, requeste
     const user = await cache.getValue(userPrincipleName);
 
     // is it stored and is timestamp good?
-    if (user && getUserInvalidationTime() > Date.now() - user.timeCached) {
+    if (user && CacheService.isValueUsable(user, getUserInvalidationTime())) {
       const cachedData = user.user ? JSON.parse(user.user) : null;
       const uniqueProps =
         requestedProps && cachedData ? requestedProps.filter(prop => !Object.keys(cachedData).includes(prop)) : null;
@@ -194,7 +194,7 @@ export async function getUsersForUserIds(
     if (getIsUsersCacheEnabled()) {
       user = await cache.getValue(id);
     }
-    if (user && getUserInvalidationTime() > Date.now() - user.timeCached) {
+    if (user && CacheService.isValueUsable(user, getUserInvalidationTime())) {
       user = JSON.parse(user?.user);
       const displayName = user.displayName;
 
@@ -289,7 +289,7 @@ export async function getUsersForPeopleQueries(graph: IGraph, peopleQueries: str
       cacheRes = await cache.getValue(personQuery);
     }
 
-    if (getIsUsersCacheEnabled() && cacheRes && getUserInvalidationTime() > Date.now() - cacheRes.timeCached) {
+    if (getIsUsersCacheEnabled() && cacheRes && CacheService.isValueUsable(cacheRes, getUserInvalidationTime())) {
       people.push(JSON.parse(cacheRes.results[0]));
     } else if (personQuery !== '') {
       batch.get(personQuery, `/me/people?$search="${personQuery}"`, ['people.read']);
@@ -356,7 +356,7 @@ export async function findUsers(
     cache = CacheService.getCache<CacheUserQuery>(schemas.users, schemas.users.stores.usersQuery);
     const result: CacheUserQuery = await cache.getValue(query);
 
-    if (result && getUserInvalidationTime() > Date.now() - result.timeCached) {
+    if (result && CacheService.isValueUsable(result, getUserInvalidationTime())) {
       return result.results.map(userStr => JSON.parse(userStr));
     }
   }
@@ -412,7 +412,7 @@ export async function findGroupMembers(
     cache = CacheService.getCache<CacheUserQuery>(schemas.users, schemas.users.stores.usersQuery);
     const result: CacheUserQuery = await cache.getValue(key);
 
-    if (result && getUserInvalidationTime() > Date.now() - result.timeCached) {
+    if (result && CacheService.isValueUsable(result, getUserInvalidationTime())) {
       return result.results.map(userStr => JSON.parse(userStr));
     }
   }
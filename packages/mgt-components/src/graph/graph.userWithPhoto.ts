@@ -46,7 +46,7 @@ export async function getUserWithPhoto(
   if (getIsUsersCacheEnabled()) {
     const cache = CacheService.getCache<CacheUser>(schemas.users, schemas.users.stores.users);
     cachedUser = await cache.getValue(userId || 'me');
-    if (cachedUser !== undefined && getUserInvalidationTime() > Date.now() - cachedUser.timeCached) {
+    if (cachedUser !== undefined && CacheService.isValueUsable(cachedUser, getUserInvalidationTime())) {
       user = cachedUser.user ? JSON.parse(cachedUser.user) : null;
       if (user !== null && requestedProps) {
         const uniqueProps = requestedProps.filter(prop => !Object.keys(user).includes(prop));
@@ -61,7 +61,7 @@ export async function getUserWithPhoto(
   }
   if (getIsPhotosCacheEnabled()) {
     cachedPhoto = await getPhotoFromCache(userId || 'me', schemas.photos.stores.users);
-    if (cachedPhoto !== undefined && getPhotoInvalidationTime() > Date.now() - cachedPhoto.timeCached) {
+    if (cachedPhoto !== undefined && CacheService.isValueUsable(cachedPhoto, getPhotoInvalidationTime())) {
       photo = cachedPhoto.photo;
     } else if (cachedPhoto) {
       try {
@@ -100,13 +100,13 @@ export async function getUserWithPhoto(
     const response = await batch.executeAll();
 
     const photoResponse = response.get('photo');
-    if (photoResponse) {
+    if (photoResponse && photoResponse.ok) {
       eTag = photoResponse.headers['ETag'];
       photo = photoResponse.content;
     }
 
     const userResponse = response.get('user');
-    if (userResponse) {
+    if (userResponse && userResponse.ok) {
       user = userResponse.content;
     }
 
@@ -0,0 +1,117 @@
+/**
+ * -------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation.  All Rights Reserved.  Licensed under the MIT License.
+ * See License in the project root for license information.
+ * -------------------------------------------------------------------------------------------
+ */
+
+import { LocalizationHelper, TemplateHelper } from '@microsoft/mgt-element';
+import { formatBytes, getRelativeDisplayDate } from './Utils';
+
+/**
+ * formats used by the date filter, by name
+ */
+const dateFormats: { [format: string]: Intl.DateTimeFormatOptions } = {
+  full: { day: 'numeric', hour: 'numeric', minute: 'numeric', month: 'long', weekday: 'long', year: 'numeric' },
+  long: { day: 'numeric', hour: 'numeric', minute: 'numeric', month: 'long', year: 'numeric' },
+  longDate: { day: 'numeric', month: 'long', year: 'numeric' },
+  medium: { day: 'numeric', hour: 'numeric', minute: 'numeric', month: 'short', year: 'numeric' },
+  mediumDate: { day: 'numeric', month: 'short', year: 'numeric' },
+  short: { day: 'numeric', hour: 'numeric', minute: 'numeric', month: 'numeric', year: 'numeric' },
+  shortDate: { day: 'numeric', month: 'numeric', year: 'numeric' },
+  time: { hour: 'numeric', minute: 'numeric' }
+};
+
+/**
+ * ISO date and time without a time zone offset (ex: 2021-05-03T14:00:00.0000000)
+ */
+const isoDateTimeWithoutOffset = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+/**
+ * converts a value piped to a date filter to a Date, returns null if it isn't a valid date.
+ * The Graph returns date times in UTC without an offset, so they are read as UTC
+ *
+ * @param {*} value a Date, a date string (ex: event.start.dateTime), a dateTimeTimeZone (ex: event.start) or a timestamp
+ * @returns {Date}
+ */
+function toDate(value: any): Date {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  let date: Date;
+  if (value instanceof Date) {
+    date = value;
+  } else if (typeof value === 'object' && typeof value.dateTime === 'string') {
+    // date times in another time zone are in the preferred time zone of the user, read as local time
+    date = new Date(value.timeZone === 'UTC' ? toUtcString(value.dateTime) : value.dateTime);
+  } else if (typeof value === 'string') {
+    date = new Date(toUtcString(value));
+  } else {
+    date = new Date(value);
+  }
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * adds the UTC designator to ISO date times without a time zone offset
+ *
+ * @param {string} value
+ * @returns {string}
+ */
+function toUtcString(value: string): string {
+  return isoDateTimeWithoutOffset.test(value) ? value + 'Z' : value;
+}
+
+/**
+ * Formats a date.
+ *
+ * Ex: {{ event.start.dateTime | date:'short' }} or {{ event.start | date:'time' }}
+ *
+ * @param {*} value
+ * @param {string} [format='medium'] full, long, longDate, medium, mediumDate, short, shortDate, time or relative
+ * @returns {string}
+ */
+function dateFilter(value: any, format: string = 'medium'): string {
+  const date = toDate(value);
+  if (!date) {
+    return value;
+  }
+
+  if (format === 'relative') {
+    return getRelativeDisplayDate(date);
+  }
+
+  return LocalizationHelper.formatDate(date, dateFormats[format] || dateFormats.medium);
+}
+
+/**
+ * Formats a date relative to today (ex: 5:23 PM today, Sun 3:04 PM this week).
+ *
+ * Ex: {{ file.lastModifiedDateTime | relativeDate }}
+ *
+ * @param {*} value
+ * @returns {string}
+ */
+function relativeDateFilter(value: any): string {
+  const date = toDate(value);
+  return date ? getRelativeDisplayDate(date) : value;
+}
+
+/**
+ * Formats a number of bytes to be human readable (ex: 1.5 MB).
+ *
+ * Ex: {{ file.size | bytes:1 }}
+ *
+ * @param {*} value
+ * @param {number} [decimals=2]
+ * @returns {string}
+ */
+function bytesFilter(value: any, decimals: number = 2): string {
+  const bytes = typeof value === 'number' ? value : parseFloat(value);
+  return isNaN(bytes) ? value : formatBytes(bytes, decimals);
+}
+
+TemplateHelper.registerFilter('date', dateFilter);
+TemplateHelper.registerFilter('relativeDate', relativeDateFilter);
+TemplateHelper.registerFilter('bytes', bytesFilter);
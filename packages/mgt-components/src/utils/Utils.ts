@@ -5,13 +5,22 @@
  * -------------------------------------------------------------------------------------------
  */
 
+import { LocalizationHelper } from '@microsoft/mgt-element';
+
+/**
+ * returns a date formatted relative to today, in the locale of the LocalizationHelper
+ *
+ * @export
+ * @param {Date} date
+ * @returns {string}
+ */
 export function getRelativeDisplayDate(date: Date): string {
   const now = new Date();
 
   // Today -> 5:23 PM
   const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
   if (date >= today) {
-    return date.toLocaleString('default', {
+    return LocalizationHelper.formatDate(date, {
       hour: 'numeric',
       minute: 'numeric'
     });
@@ -21,7 +30,7 @@ export function getRelativeDisplayDate(date: Date): string {
   const sunday = new Date(today);
   sunday.setDate(now.getDate() - now.getDay());
   if (date >= sunday) {
-    return date.toLocaleString('default', {
+    return LocalizationHelper.formatDate(date, {
       hour: 'numeric',
       minute: 'numeric',
       weekday: 'short'
@@ -32,7 +41,7 @@ export function getRelativeDisplayDate(date: Date): string {
   const lastTwoWeeks = new Date(sunday);
   lastTwoWeeks.setDate(sunday.getDate() - 7);
   if (date >= lastTwoWeeks) {
-    return date.toLocaleString('default', {
+    return LocalizationHelper.formatDate(date, {
       day: 'numeric',
       month: 'numeric',
       weekday: 'short'
@@ -40,7 +49,7 @@ export function getRelativeDisplayDate(date: Date): string {
   }
 
   // More than two weeks ago -> 8/1/2020
-  return date.toLocaleString('default', {
+  return LocalizationHelper.formatDate(date, {
     day: 'numeric',
     month: 'numeric',
     year: 'numeric'
@@ -58,84 +67,44 @@ export function delay(ms: number): Promise<void> {
 }
 
 /**
- * returns month and day
+ * returns month and day, in the locale of the LocalizationHelper
  *
  * @export
  * @param {Date} date
  * @returns
  */
 export function getShortDateString(date: Date) {
-  const month = date.getMonth();
-  const day = date.getDate();
-
-  return `${getMonthString(month)} ${day}`;
+  return LocalizationHelper.formatDate(date, { day: 'numeric', month: 'long' });
 }
 
 /**
- * returns month string based on number
+ * returns month string based on number, in the locale of the LocalizationHelper
  *
  * @export
  * @param {number} month
  * @returns {string}
  */
 export function getMonthString(month: number): string {
-  switch (month) {
-    case 0:
-      return 'January';
-    case 1:
-      return 'February';
-    case 2:
-      return 'March';
-    case 3:
-      return 'April';
-    case 4:
-      return 'May';
-    case 5:
-      return 'June';
-    case 6:
-      return 'July';
-    case 7:
-      return 'August';
-    case 8:
-      return 'September';
-    case 9:
-      return 'October';
-    case 10:
-      return 'November';
-    case 11:
-      return 'December';
-    default:
-      return 'Month';
+  if (month < 0 || month > 11) {
+    return 'Month';
   }
+  return LocalizationHelper.formatDate(new Date(2020, month, 1), { month: 'long' });
 }
 
 /**
  * returns day of week string based on number
- * where 0 === Sunday
+ * where 0 === Sunday, in the locale of the LocalizationHelper
  *
  * @export
  * @param {number} day
  * @returns {string}
  */
 export function getDayOfWeekString(day: number): string {
-  switch (day) {
-    case 0:
-      return 'Sunday';
-    case 1:
-      return 'Monday';
-    case 2:
-      return 'Tuesday';
-    case 3:
-      return 'Wednesday';
-    case 4:
-      return 'Thursday';
-    case 5:
-      return 'Friday';
-    case 6:
-      return 'Saturday';
-    default:
-      return 'Day';
+  if (day < 0 || day > 6) {
+    return 'Day';
   }
+  // January 5th 2020 is a Sunday
+  return LocalizationHelper.formatDate(new Date(2020, 0, 5 + day), { weekday: 'long' });
 }
 
 /**
@@ -260,5 +229,5 @@ export function formatBytes(bytes, decimals = 2) {
   const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB', 'PB', 'EB', 'ZB', 'YB'];
   const i = Math.floor(Math.log(bytes) / Math.log(k));
 
-  return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
+  return LocalizationHelper.formatNumber(bytes / Math.pow(k, i), { maximumFractionDigits: dm }) + ' ' + sizes[i];
 }
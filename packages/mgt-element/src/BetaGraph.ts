@@ -31,13 +31,17 @@ export class BetaGraph extends Graph {
    * @memberof BetaGraph
    */
   public static fromGraph(graph: IGraph): BetaGraph {
-    const betaGraph = new BetaGraph(graph.client);
+    const betaGraph = new BetaGraph(graph.client, GRAPH_VERSION, graph.baseUrl);
     betaGraph.setComponent(graph.componentName);
+    betaGraph.setSignal(graph.signal);
+    if (graph.autoBatchOptions) {
+      betaGraph.enableAutoBatch(graph.autoBatchOptions);
+    }
     return betaGraph;
   }
 
-  constructor(client: Client, version: string = GRAPH_VERSION) {
-    super(client, version);
+  constructor(client: Client, version: string = GRAPH_VERSION, baseUrl?: string) {
+    super(client, version, baseUrl);
   }
 
   /**
@@ -45,12 +49,15 @@ export class BetaGraph extends Graph {
    * client within the context of the provider.
    *
    * @param {Element} component
+   * @param {AbortSignal} [signal] aborts the requests made with the new instance
    * @returns {BetaGraph}
    * @memberof BetaGraph
    */
-  public forComponent(component: Element | string): BetaGraph {
-    const graph = new BetaGraph(this.client);
+  public forComponent(component: Element | string, signal?: AbortSignal): BetaGraph {
+    const graph = new BetaGraph(this.client, this.version, this.baseUrl);
     this.setComponent(component);
+    graph.setSignal(signal);
+    graph.enableAutoBatch(this.autoBatchOptions);
     return graph;
   }
 }
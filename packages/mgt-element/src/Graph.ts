@@ -19,9 +19,14 @@ import {
 
 import { IGraph } from './IGraph';
 import { IProvider } from './providers/IProvider';
+import { Providers } from './providers/Providers';
+import { AutoBatchMiddleware } from './utils/AutoBatchMiddleware';
+import { AutoBatchMiddlewareOptions, AutoBatchOptions } from './utils/AutoBatchMiddlewareOptions';
 import { Batch } from './utils/Batch';
 import { ComponentMiddlewareOptions } from './utils/ComponentMiddlewareOptions';
+import { DeduplicationMiddleware } from './utils/DeduplicationMiddleware';
 import { chainMiddleware } from './utils/GraphHelpers';
+import { RequestAttemptMiddleware, RequestTelemetryMiddleware } from './utils/RequestTelemetryMiddleware';
 import { SdkVersionMiddleware } from './utils/SdkVersionMiddleware';
 import { PACKAGE_VERSION } from './utils/version';
 
@@ -71,13 +76,51 @@ export class Graph implements IGraph {
     return this._version;
   }
 
+  /**
+   * the Microsoft Graph endpoint requests are sent to
+   *
+   * @readonly
+   * @type {string}
+   * @memberof Graph
+   */
+  public get baseUrl(): string {
+    return this._baseUrl;
+  }
+
+  /**
+   * the signal used to abort the requests of this instance
+   *
+   * @readonly
+   * @type {AbortSignal}
+   * @memberof Graph
+   */
+  public get signal(): AbortSignal {
+    return this._signal;
+  }
+
+  /**
+   * the options used to coalesce GET requests into $batch requests,
+   * null when requests are sent individually
+   *
+   * @readonly
+   * @type {AutoBatchOptions}
+   * @memberof Graph
+   */
+  public get autoBatchOptions(): AutoBatchOptions {
+    return this._autoBatchOptions;
+  }
+
   private _client: Client;
   private _componentName: string;
   private _version: string;
+  private _baseUrl: string;
+  private _signal: AbortSignal;
+  private _autoBatchOptions: AutoBatchOptions = null;
 
-  constructor(client: Client, version: string = GRAPH_VERSION) {
+  constructor(client: Client, version: string = GRAPH_VERSION, baseUrl: string = Providers.baseUrl) {
     this._client = client;
     this._version = version;
+    this._baseUrl = baseUrl;
   }
 
   /**
@@ -85,15 +128,38 @@ export class Graph implements IGraph {
    * client within the context of the provider.
    *
    * @param {Element} component
+   * @param {AbortSignal} [signal] aborts the requests made with the new instance
    * @returns {IGraph}
    * @memberof Graph
    */
-  public forComponent(component: Element | string): Graph {
-    const graph = new Graph(this._client, this._version);
+  public forComponent(component: Element | string, signal?: AbortSignal): Graph {
+    const graph = new Graph(this._client, this._version, this._baseUrl);
     graph.setComponent(component);
+    graph.setSignal(signal);
+    graph.enableAutoBatch(this._autoBatchOptions);
     return graph;
   }
 
+  /**
+   * Coalesces GET requests made within a short window into $batch requests.
+   * Graph instances created from this instance with forComponent inherit the setting.
+   *
+   * @param {AutoBatchOptions} [options={}] pass null to send requests individually
+   * @memberof Graph
+   */
+  public enableAutoBatch(options: AutoBatchOptions = {}): void {
+    this._autoBatchOptions = options;
+  }
+
+  /**
+   * Sends requests individually again
+   *
+   * @memberof Graph
+   */
+  public disableAutoBatch(): void {
+    this._autoBatchOptions = null;
+  }
+
   /**
    * Returns a new graph request for a specific component
    * Used internally for analytics purposes
@@ -104,13 +170,26 @@ export class Graph implements IGraph {
   public api(path: string): GraphRequest {
     let request = this._client.api(path).version(this._version);
 
+    if (this._signal) {
+      request = request.option('signal', this._signal);
+    }
+
+    const middlewareOptions: MiddlewareOptions[] = [];
     if (this._componentName) {
+      middlewareOptions.push(new ComponentMiddlewareOptions(this._componentName));
+    }
+    if (this._autoBatchOptions) {
+      const root = `${(this._baseUrl || '').replace(/\/+$/, '')}/${this._version}`;
+      middlewareOptions.push(new AutoBatchMiddlewareOptions(this._autoBatchOptions, root));
+    }
+
+    if (middlewareOptions.length) {
       request.middlewareOptions = (options: MiddlewareOptions[]): GraphRequest => {
         const requestObj = request as any;
         requestObj._middlewareOptions = requestObj._middlewareOptions.concat(options);
         return request;
       };
-      request = request.middlewareOptions([new ComponentMiddlewareOptions(this._componentName)]);
+      request = request.middlewareOptions(middlewareOptions);
     }
 
     return request;
@@ -136,29 +215,58 @@ export class Graph implements IGraph {
   protected setComponent(component: Element | string): void {
     this._componentName = component instanceof Element ? component.tagName : component;
   }
+
+  /**
+   * sets the signal used to abort requests.
+   *
+   * @protected
+   * @param {AbortSignal} signal
+   * @memberof Graph
+   */
+  protected setSignal(signal: AbortSignal): void {
+    this._signal = signal;
+  }
 }
 
 /**
  * create a new Graph instance using the specified provider.
+ * Requests are sent to the endpoint set in Providers.baseUrl.
+ * The custom middleware run right before the requests are sent to the network
+ * (ex: RecordMiddleware, ReplayMiddleware), after the $batch requests are built.
  *
  * @static
  * @param {IProvider} provider
+ * @param {string} [version]
+ * @param {Element} [component]
+ * @param {Middleware[]} [customMiddleware=Providers.customMiddleware]
  * @returns {Graph}
  * @memberof Graph
  */
-export function createFromProvider(provider: IProvider, version?: string, component?: Element): Graph {
+export function createFromProvider(
+  provider: IProvider,
+  version?: string,
+  component?: Element,
+  customMiddleware: Middleware[] = Providers.customMiddleware
+): Graph {
   const middleware: Middleware[] = [
+    new RequestTelemetryMiddleware(),
+    new DeduplicationMiddleware(),
+    new AutoBatchMiddleware(),
     new AuthenticationHandler(provider),
     new RetryHandler(new RetryHandlerOptions()),
+    new RequestAttemptMiddleware(),
     new TelemetryHandler(),
     new SdkVersionMiddleware(PACKAGE_VERSION, provider.name),
+    ...(customMiddleware || []),
     new HTTPMessageHandler()
   ];
 
+  const baseUrl = Providers.baseUrl;
   const client = Client.initWithMiddleware({
+    baseUrl,
     middleware: chainMiddleware(...middleware)
   });
 
-  const graph = new Graph(client, version);
+  const graph = new Graph(client, version, baseUrl);
   return component ? graph.forComponent(component) : graph;
 }
@@ -44,6 +44,33 @@ export class BatchResponse {
    * @memberof BatchResponse
    */
   public headers: string[];
+
+  /**
+   * The HTTP status code of the response
+   *
+   * @type {number}
+   * @memberof BatchResponse
+   */
+  public status: number;
+
+  /**
+   * The error returned by the Graph when the request failed
+   *
+   * @type {*}
+   * @memberof BatchResponse
+   */
+  public error: any;
+
+  /**
+   * Whether the request succeeded (2xx status)
+   *
+   * @readonly
+   * @type {boolean}
+   * @memberof BatchResponse
+   */
+  public get ok(): boolean {
+    return this.status >= 200 && this.status < 300;
+  }
 }
 
 /**
@@ -68,13 +95,68 @@ export interface IBatch {
    * @param {string} resource
    * @param {string[]} [scopes]
    * @param {{ [header: string]: string }} [headers]
+   * @param {string[]} [dependsOn] ids of the requests that must complete before this request
+   * @memberof IBatch
+   */
+  get(id: string, resource: string, scopes?: string[], headers?: { [header: string]: string }, dependsOn?: string[]);
+
+  /**
+   * sets new POST request and scopes
+   *
+   * @param {string} id
+   * @param {string} resource
+   * @param {*} body sent as JSON
+   * @param {string[]} [scopes]
+   * @param {{ [header: string]: string }} [headers]
+   * @param {string[]} [dependsOn] ids of the requests that must complete before this request
+   * @memberof IBatch
+   */
+  post(
+    id: string,
+    resource: string,
+    body: any,
+    scopes?: string[],
+    headers?: { [header: string]: string },
+    dependsOn?: string[]
+  );
+
+  /**
+   * sets new PATCH request and scopes
+   *
+   * @param {string} id
+   * @param {string} resource
+   * @param {*} body sent as JSON
+   * @param {string[]} [scopes]
+   * @param {{ [header: string]: string }} [headers]
+   * @param {string[]} [dependsOn] ids of the requests that must complete before this request
+   * @memberof IBatch
+   */
+  patch(
+    id: string,
+    resource: string,
+    body: any,
+    scopes?: string[],
+    headers?: { [header: string]: string },
+    dependsOn?: string[]
+  );
+
+  /**
+   * sets new DELETE request and scopes
+   *
+   * @param {string} id
+   * @param {string} resource
+   * @param {string[]} [scopes]
+   * @param {{ [header: string]: string }} [headers]
+   * @param {string[]} [dependsOn] ids of the requests that must complete before this request
    * @memberof IBatch
    */
-  get(id: string, resource: string, scopes?: string[], headers?: { [header: string]: string });
+  delete(id: string, resource: string, scopes?: string[], headers?: { [header: string]: string }, dependsOn?: string[]);
 
   /**
    * Execute the next set of requests.
-   * This will execute up to 20 requests at a time
+   * This will execute up to 20 requests at a time.
+   * Throttled and unavailable requests are retried with the following set,
+   * failed requests are returned with their status and error.
    *
    * @returns {Promise<Map<string, BatchResponse>>}
    * @memberof IBatch
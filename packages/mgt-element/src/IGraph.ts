@@ -7,6 +7,7 @@
 
 import { Client, GraphRequest } from '@microsoft/microsoft-graph-client';
 import { IBatch } from './IBatch';
+import { AutoBatchOptions } from './utils/AutoBatchMiddlewareOptions';
 
 /**
  * The common functions of the Graph
@@ -39,15 +40,41 @@ export interface IGraph {
    */
   readonly version: string;
 
+  /**
+   * the Microsoft Graph endpoint requests are sent to
+   *
+   * @type {string}
+   * @memberof IGraph
+   */
+  readonly baseUrl?: string;
+
+  /**
+   * the signal used to abort the requests of this instance
+   *
+   * @type {AbortSignal}
+   * @memberof IGraph
+   */
+  readonly signal?: AbortSignal;
+
+  /**
+   * the options used to coalesce GET requests into $batch requests,
+   * null when requests are sent individually
+   *
+   * @type {AutoBatchOptions}
+   * @memberof IGraph
+   */
+  readonly autoBatchOptions?: AutoBatchOptions;
+
   /**
    * returns a new instance of the Graph using the same
    * client within the context of the provider.
    *
    * @param {Element} component
+   * @param {AbortSignal} [signal] aborts the requests made with the new instance
    * @returns {IGraph}
    * @memberof IGraph
    */
-  forComponent(component: Element): IGraph;
+  forComponent(component: Element, signal?: AbortSignal): IGraph;
 
   /**
    * use this method to make calls directly to the Graph.
@@ -65,4 +92,19 @@ export interface IGraph {
    * @memberof IGraph
    */
   createBatch(): IBatch;
+
+  /**
+   * coalesces GET requests made within a short window into $batch requests.
+   *
+   * @param {AutoBatchOptions} [options]
+   * @memberof IGraph
+   */
+  enableAutoBatch?(options?: AutoBatchOptions): void;
+
+  /**
+   * sends requests individually again
+   *
+   * @memberof IGraph
+   */
+  disableAutoBatch?(): void;
 }
@@ -5,10 +5,13 @@
  * -------------------------------------------------------------------------------------------
  */
 
-import { internalProperty, LitElement, PropertyValues } from 'lit-element';
+import { internalProperty, LitElement, property, PropertyValues } from 'lit-element';
 import { ProviderState } from '../providers/IProvider';
 import { Providers } from '../providers/Providers';
+import { CacheService } from '../utils/Cache';
 import { LocalizationHelper } from '../utils/LocalizationHelper';
+import { MgtError, MgtErrorType } from '../utils/MgtError';
+import { ConnectivityChangedEvent, OfflineService } from '../utils/Offline';
 
 /**
  * Defines media query based on component width
@@ -42,6 +45,23 @@ export enum ComponentMediaQuery {
  * @extends {LitElement}
  */
 export abstract class MgtBaseComponent extends LitElement {
+  /**
+   * Gets the error of the last load of the component state, if it failed
+   *
+   * @type {MgtError}
+   * @memberof MgtBaseComponent
+   */
+  @property({ attribute: false }) public error: MgtError;
+
+  /**
+   * Gets whether the component shows expired cached data because it loaded its state while offline.
+   * The state is reloaded when the browser is back online
+   *
+   * @type {boolean}
+   * @memberof MgtBaseComponent
+   */
+  @property({ attribute: false }) public isStale: boolean = false;
+
   /**
    * Gets or sets the direction of the component
    *
@@ -108,6 +128,9 @@ export abstract class MgtBaseComponent extends LitElement {
 
   private _isFirstUpdated = false;
   private _currentLoadStatePromise: Promise<unknown>;
+  private _loadStateAbortController: AbortController;
+  private _loadingStateSignal: AbortSignal;
+  private _isLoadAbortedOnDisconnect = false;
 
   constructor() {
     super();
@@ -115,6 +138,7 @@ export abstract class MgtBaseComponent extends LitElement {
     this.handleDirectionChanged = this.handleDirectionChanged.bind(this);
     this.handleProviderUpdates = this.handleProviderUpdates.bind(this);
     this.handleActiveAccountUpdates = this.handleActiveAccountUpdates.bind(this);
+    this.handleConnectivityChanged = this.handleConnectivityChanged.bind(this);
     this.handleDirectionChanged();
     this.handleLocalizationChanged();
   }
@@ -128,6 +152,17 @@ export abstract class MgtBaseComponent extends LitElement {
     super.connectedCallback();
     LocalizationHelper.onStringsUpdated(this.handleLocalizationChanged);
     LocalizationHelper.onDirectionUpdated(this.handleDirectionChanged);
+    OfflineService.onConnectivityChanged(this.handleConnectivityChanged);
+
+    if (this._isFirstUpdated) {
+      // the element was moved, listen to the provider again and restart the load aborted when it was removed
+      Providers.onProviderUpdated(this.handleProviderUpdates);
+      Providers.onActiveAccountChanged(this.handleActiveAccountUpdates);
+      if (this._isLoadAbortedOnDisconnect) {
+        this._isLoadAbortedOnDisconnect = false;
+        this.requestStateUpdate(true);
+      }
+    }
   }
 
   /**
@@ -139,8 +174,13 @@ export abstract class MgtBaseComponent extends LitElement {
     super.disconnectedCallback();
     LocalizationHelper.removeOnStringsUpdated(this.handleLocalizationChanged);
     LocalizationHelper.removeOnDirectionUpdated(this.handleDirectionChanged);
+    OfflineService.removeConnectivityChangedListener(this.handleConnectivityChanged);
     Providers.removeProviderUpdatedListener(this.handleProviderUpdates);
     Providers.removeActiveAccountChangedListener(this.handleActiveAccountUpdates);
+    if (this.isLoadingState) {
+      this._isLoadAbortedOnDisconnect = true;
+    }
+    this.abortLoadState();
   }
 
   /**
@@ -163,8 +203,12 @@ export abstract class MgtBaseComponent extends LitElement {
   /**
    * load state into the component.
    * Override this function to provide additional loading logic.
+   *
+   * @param {AbortSignal} [signal] aborted when a newer load supersedes this one.
+   * Pass it to Graph.forComponent to cancel the Graph requests of the load
+   * and don't update the component state once it's aborted.
    */
-  protected loadState(): Promise<void> {
+  protected loadState(signal?: AbortSignal): Promise<void> {
     return Promise.resolve();
   }
 
@@ -216,6 +260,7 @@ export abstract class MgtBaseComponent extends LitElement {
   /**
    * Request to reload the state.
    * Use reload instead of load to ensure loading events are fired.
+   * A forced reload aborts the load in progress.
    *
    * @protected
    * @memberof MgtBaseComponent
@@ -237,42 +282,77 @@ export abstract class MgtBaseComponent extends LitElement {
       return Promise.resolve();
     }
 
-    if (provider.state === ProviderState.SignedOut) {
+    if (provider.state === ProviderState.SignedOut || provider.state === ProviderState.Error) {
       // Signed out, clear the component state
+      this.abortLoadState();
       this.clearState();
+      this.error = null;
+      this.isStale = false;
       return;
     } else if (provider.state === ProviderState.Loading) {
       // The provider state is indeterminate. Do nothing.
       return Promise.resolve();
     } else {
       // Signed in, load the internal component state
-      const loadStatePromise = new Promise(async (resolve, reject) => {
+      const signal = this.supersedeLoadState();
+      this._loadingStateSignal = signal;
+      const loadStatePromise = (async () => {
         try {
           this.setLoadingState(true);
+          this.error = null;
           this.fireCustomEvent('loadingInitiated');
 
-          await this.loadState();
+          // other components loading at the same time may serve stale values too,
+          // at worst this component reloads once more when back online
+          const staleValueCount = CacheService.staleValueCount;
+          await this.loadState(signal);
 
-          this.setLoadingState(false);
-          this.fireCustomEvent('loadingCompleted');
-          resolve();
+          if (!signal.aborted) {
+            this.isStale = CacheService.staleValueCount > staleValueCount;
+            this.setLoadingState(false);
+            this.fireCustomEvent('loadingCompleted');
+          }
         } catch (e) {
-          // Loading failed. Clear any partially set data.
-          this.clearState();
-
-          this.setLoadingState(false);
-          this.fireCustomEvent('loadingFailed');
-          reject(e);
+          if (!signal.aborted) {
+            // Loading failed. Clear any partially set data.
+            this.clearState();
+            this.error = MgtError.fromError(e);
+            this.isStale = false;
+
+            this.setLoadingState(false);
+            this.fireCustomEvent('loadingFailed', { error: this.error });
+            throw e;
+          }
+        } finally {
+          // aborted loads leave the loading state to the reload superseding them, if any
+          if (signal.aborted && this._loadingStateSignal === signal) {
+            this.setLoadingState(false);
+          }
         }
+      })();
+
+      return (this._currentLoadStatePromise = loadStatePromise);
+    }
+  }
+
+  /**
+   * Aborts the load in progress, if any, and returns the signal of a new load.
+   * Use it when calling loadState directly.
+   *
+   * @protected
+   * @returns {AbortSignal}
+   * @memberof MgtBaseComponent
+   */
+  protected supersedeLoadState(): AbortSignal {
+    this.abortLoadState();
+    this._loadStateAbortController = new AbortController();
+    return this._loadStateAbortController.signal;
+  }
 
-        // Return the load state promise.
-        // If loading + forced, chain the promises.
-        // This is to account for the lack of a cancellation token concept.
-        return (this._currentLoadStatePromise =
-          this.isLoadingState && !!this._currentLoadStatePromise && force
-            ? this._currentLoadStatePromise.then(() => loadStatePromise)
-            : loadStatePromise);
-      });
+  private abortLoadState() {
+    if (this._loadStateAbortController) {
+      this._loadStateAbortController.abort();
+      this._loadStateAbortController = null;
     }
   }
 
@@ -294,6 +374,12 @@ export abstract class MgtBaseComponent extends LitElement {
     this.requestStateUpdate();
   }
 
+  private handleConnectivityChanged(e: ConnectivityChangedEvent) {
+    if (e.isOnline && (this.isStale || (this.error && this.error.type === MgtErrorType.network))) {
+      this.requestStateUpdate();
+    }
+  }
+
   private handleLocalizationChanged() {
     LocalizationHelper.updateStringsForTag(this.tagName, this.strings);
     this.requestUpdate();
@@ -0,0 +1,15 @@
+/**
+ * -------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation.  All Rights Reserved.  Licensed under the MIT License.
+ * See License in the project root for license information.
+ * -------------------------------------------------------------------------------------------
+ */
+
+export const strings = {
+  authErrorMessage: 'Sign in again or ask your administrator to grant the required permissions.',
+  forbiddenErrorMessage: "You don't have permission to see this content.",
+  notFoundErrorMessage: "This content can't be found.",
+  throttledErrorMessage: 'Too many requests. Try again in a few moments.',
+  networkErrorMessage: "Can't connect to Microsoft Graph. Check your network connection.",
+  unknownErrorMessage: 'Something went wrong.'
+};
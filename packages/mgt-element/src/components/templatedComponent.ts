@@ -5,12 +5,15 @@
  * -------------------------------------------------------------------------------------------
  */
 
-import { html, property, PropertyValues } from 'lit-element';
+import { html, property, PropertyValues, TemplateResult } from 'lit-element';
 
 import { equals } from '../utils/equals';
 import { MgtBaseComponent } from './baseComponent';
+import { LocalizationHelper } from '../utils/LocalizationHelper';
+import { MgtError } from '../utils/MgtError';
 import { TemplateContext } from '../utils/TemplateContext';
 import { TemplateHelper } from '../utils/TemplateHelper';
+import { strings } from './strings';
 
 /**
  * Lookup for rendered component templates and contexts by slot name.
@@ -25,6 +28,10 @@ interface RenderedTemplates {
      * Reference to the rendered DOM element corresponding to the slot.
      */
     slot: HTMLElement;
+    /**
+     * Reference to the template rendered in the slot.
+     */
+    template: HTMLTemplateElement;
   };
 }
 
@@ -115,30 +122,72 @@ export abstract class MgtTemplatedComponent extends MgtBaseComponent {
     `;
 
     const dataContext = { ...context, ...this.templateContext };
+    const templateElement: HTMLTemplateElement = this.templates[templateType];
 
     if (this._renderedTemplates.hasOwnProperty(slotName)) {
-      const { context: existingContext, slot } = this._renderedTemplates[slotName];
-      if (equals(existingContext, dataContext)) {
+      const { context: existingContext, slot, template: existingTemplate } = this._renderedTemplates[slotName];
+      if (equals(existingContext, dataContext) && existingTemplate === templateElement) {
+        return template;
+      }
+
+      if (existingTemplate === templateElement && slot.parentNode === this) {
+        // patch the rendered DOM so the rendered elements keep their focus, scroll position and state
+        TemplateHelper.updateTemplate(slot, templateElement, dataContext);
+        this._renderedTemplates[slotName] = { context: dataContext, slot, template: templateElement };
+        this.fireCustomEvent('templateRendered', { templateType, context: dataContext, element: slot });
         return template;
       }
-      this.removeChild(slot);
+
+      if (slot.parentNode === this) {
+        this.removeChild(slot);
+      }
     }
 
     const div = document.createElement('div');
     div.slot = slotName;
     div.dataset.generated = 'template';
 
-    TemplateHelper.renderTemplate(div, this.templates[templateType], dataContext);
+    TemplateHelper.renderTemplate(div, templateElement, dataContext);
 
     this.appendChild(div);
 
-    this._renderedTemplates[slotName] = { context: dataContext, slot: div };
+    this._renderedTemplates[slotName] = { context: dataContext, slot: div, template: templateElement };
 
     this.fireCustomEvent('templateRendered', { templateType, context: dataContext, element: div });
 
     return template;
   }
 
+  /**
+   * Render the error of the last load, using the error template if provided.
+   * The error template gets the MgtError as `error`.
+   *
+   * @protected
+   * @returns {TemplateResult}
+   * @memberof MgtTemplatedComponent
+   */
+  protected renderError(): TemplateResult {
+    return (
+      this.renderTemplate('error', { error: this.error }) ||
+      html`
+        <div class="error" role="alert">${this.getErrorMessage(this.error)}</div>
+      `
+    );
+  }
+
+  /**
+   * Gets the localized message describing an error
+   *
+   * @protected
+   * @param {MgtError} error
+   * @returns {string}
+   * @memberof MgtTemplatedComponent
+   */
+  protected getErrorMessage(error: MgtError): string {
+    const errorStrings = LocalizationHelper.updateStringsForTag(this.tagName, { ...strings });
+    return (error && errorStrings[`${error.type}ErrorMessage`]) || errorStrings.unknownErrorMessage;
+  }
+
   /**
    * Check if a specific template has been provided.
    *
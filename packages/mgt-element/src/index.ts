@@ -18,15 +18,25 @@ export * from './providers/IProvider';
 export * from './providers/Providers';
 export * from './providers/SimpleProvider';
 
+export * from './utils/AutoBatchMiddlewareOptions';
 export * from './utils/Cache';
+export * from './utils/CacheStorage';
+export * from './utils/DeduplicationMiddleware';
 export * from './utils/EventDispatcher';
 export * from './utils/equals';
 export * from './utils/GraphHelpers';
+export * from './utils/GraphRecording';
 export * from './utils/TeamsHelper';
 export * from './utils/TemplateContext';
 export * from './utils/TemplateHelper';
 export * from './utils/GraphPageIterator';
 export * from './utils/LocalizationHelper';
+export * from './utils/MgtError';
+export * from './utils/RequestTelemetry';
+export * from './utils/Offline';
+export * from './utils/TabSync';
 
+export * from './mock/MockBackend';
+export * from './mock/MockGraph';
 export * from './mock/MockProvider';
 export * from './mock/mgt-mock-provider';
@@ -0,0 +1,394 @@
+/**
+ * -------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation.  All Rights Reserved.  Licensed under the MIT License.
+ * See License in the project root for license information.
+ * -------------------------------------------------------------------------------------------
+ */
+
+import { registerDefaultData } from './MockData';
+import { applyQueryOptions } from './MockQuery';
+
+/**
+ * A request handled by the MockBackend
+ *
+ * @export
+ * @interface MockRequest
+ */
+export interface MockRequest {
+  /**
+   * HTTP method of the request, in upper case
+   *
+   * @type {string}
+   * @memberof MockRequest
+   */
+  method: string;
+
+  /**
+   * full url of the request
+   *
+   * @type {string}
+   * @memberof MockRequest
+   */
+  url: string;
+
+  /**
+   * path of the request, without the Graph version (ex: /me/events)
+   *
+   * @type {string}
+   * @memberof MockRequest
+   */
+  path: string;
+
+  /**
+   * values of the {parameters} of the route path
+   *
+   * @type {{ [name: string]: string }}
+   * @memberof MockRequest
+   */
+  params: { [name: string]: string };
+
+  /**
+   * query options of the request, keyed by lower case name without $ (ex: select, filter)
+   *
+   * @type {{ [option: string]: string }}
+   * @memberof MockRequest
+   */
+  query: { [option: string]: string };
+
+  /**
+   * headers of the request
+   *
+   * @type {{ [header: string]: string }}
+   * @memberof MockRequest
+   */
+  headers: { [header: string]: string };
+
+  /**
+   * body of the request, parsed when it is JSON
+   *
+   * @type {*}
+   * @memberof MockRequest
+   */
+  body: any;
+}
+
+/**
+ * Handles the requests of a mock route.
+ * Returns the body of a 200 response, a MockResponse, or undefined for a 204 response
+ */
+export type MockRouteHandler = (request: MockRequest) => any;
+
+/**
+ * A response returned by the MockBackend.
+ * Binary bodies are base64 encoded strings, like in $batch responses
+ *
+ * @export
+ * @class MockResponse
+ */
+export class MockResponse {
+  /**
+   * Creates an error response in the format returned by the Graph
+   *
+   * @static
+   * @param {number} status
+   * @param {string} code
+   * @param {string} message
+   * @returns {MockResponse}
+   * @memberof MockResponse
+   */
+  public static error(status: number, code: string, message: string): MockResponse {
+    return new MockResponse(status, { error: { code, message } });
+  }
+
+  /**
+   * HTTP status of the response
+   *
+   * @type {number}
+   * @memberof MockResponse
+   */
+  public status: number;
+
+  /**
+   * body of the response
+   *
+   * @type {*}
+   * @memberof MockResponse
+   */
+  public body: any;
+
+  /**
+   * headers of the response
+   *
+   * @type {{ [header: string]: string }}
+   * @memberof MockResponse
+   */
+  public headers: { [header: string]: string };
+
+  constructor(status: number, body?: any, headers: { [header: string]: string } = {}) {
+    this.status = status;
+    this.body = body;
+    this.headers = headers;
+  }
+}
+
+/**
+ * A route registered in the MockBackend
+ */
+interface MockRoute {
+  /**
+   * HTTP method of the route, in upper case
+   */
+  method: string;
+
+  /**
+   * segments of the route path, {parameters} match any segment
+   */
+  segments: string[];
+
+  /**
+   * handles the requests matching the route
+   */
+  handler: MockRouteHandler;
+}
+
+/**
+ * Local backend answering the requests of the MockGraph without using the network.
+ * Requests are matched against routes registered by path and method,
+ * the most recently registered route wins so routes can override the default dataset.
+ * $batch requests, paging and the $select, $filter, $search, $orderby, $count and $top query options are emulated.
+ *
+ * @export
+ * @class MockBackend
+ */
+// tslint:disable-next-line: max-classes-per-file
+export class MockBackend {
+  /**
+   * Number of items returned per page when the request doesn't set $top
+   *
+   * @type {number}
+   * @memberof MockBackend
+   */
+  public pageSize: number = 100;
+
+  private routes: MockRoute[] = [];
+  private nextId: number = 1;
+
+  /**
+   * Creates a new MockBackend
+   *
+   * @param {boolean} [useDefaultData=true] registers the default dataset (users, photos, events, drive items, tasks and presence)
+   * @memberof MockBackend
+   */
+  constructor(useDefaultData: boolean = true) {
+    if (useDefaultData) {
+      registerDefaultData(this);
+    }
+  }
+
+  /**
+   * Registers a route.
+   * The path can contain {parameters} matching a single segment (ex: /users/{id}/presence)
+   *
+   * @param {string} method HTTP method of the route
+   * @param {string} path path of the route, without the Graph version
+   * @param {(MockRouteHandler | any)} handler function handling the requests, or a JSON fixture returned as is
+   * @memberof MockBackend
+   */
+  public route(method: string, path: string, handler: MockRouteHandler | any) {
+    const fixture = handler;
+    this.routes.push({
+      handler: typeof handler === 'function' ? handler : () => fixture,
+      method: method.toUpperCase(),
+      segments: this.getSegments(path)
+    });
+  }
+
+  /**
+   * Registers a collection of entities with routes to list, get, create, update and delete them.
+   * The items are updated by the requests so the collection behaves like the Graph
+   *
+   * @param {string} path path of the collection (ex: /me/events)
+   * @param {any[]} items entities of the collection, each with an id
+   * @memberof MockBackend
+   */
+  public collection(path: string, items: any[]) {
+    const findIndex = (request: MockRequest) => items.findIndex(item => `${item.id}` === request.params.id);
+    const notFound = (request: MockRequest) =>
+      MockResponse.error(404, 'ResourceNotFound', `No item '${request.params.id}' in ${path}`);
+
+    this.route('GET', path, () => ({ value: items }));
+    this.route('POST', path, request => {
+      const item = { id: `mock-${this.nextId++}`, ...request.body };
+      items.push(item);
+      return new MockResponse(201, item);
+    });
+    this.route('GET', `${path}/{id}`, request => {
+      const index = findIndex(request);
+      return index >= 0 ? items[index] : notFound(request);
+    });
+    this.route('PATCH', `${path}/{id}`, request => {
+      const index = findIndex(request);
+      if (index < 0) {
+        return notFound(request);
+      }
+      items[index] = { ...items[index], ...request.body, id: items[index].id };
+      return items[index];
+    });
+    this.route('DELETE', `${path}/{id}`, request => {
+      const index = findIndex(request);
+      if (index < 0) {
+        return notFound(request);
+      }
+      items.splice(index, 1);
+    });
+  }
+
+  /**
+   * Removes all routes, including the default dataset
+   *
+   * @memberof MockBackend
+   */
+  public clear() {
+    this.routes = [];
+  }
+
+  /**
+   * Handles a request
+   *
+   * @param {string} method HTTP method of the request
+   * @param {string} url full url of the request (ex: https://graph.microsoft.com/v1.0/me)
+   * @param {{ [header: string]: string }} [headers={}]
+   * @param {*} [body]
+   * @returns {Promise<MockResponse>}
+   * @memberof MockBackend
+   */
+  public async handle(
+    method: string,
+    url: string,
+    headers: { [header: string]: string } = {},
+    body?: any
+  ): Promise<MockResponse> {
+    method = method.toUpperCase();
+    const parsedUrl = new URL(url);
+
+    // the first segment is the version of the Graph
+    const [version, ...segments] = parsedUrl.pathname
+      .split('/')
+      .filter(s => s)
+      .map(s => decodeURIComponent(s));
+    const path = '/' + segments.join('/');
+
+    const query: { [option: string]: string } = {};
+    parsedUrl.searchParams.forEach((value, key) => {
+      query[key.replace(/^\$/, '').toLowerCase()] = value;
+    });
+
+    if (typeof body === 'string') {
+      try {
+        body = JSON.parse(body);
+      } catch (e) {
+        // not JSON, keep the raw body
+      }
+    }
+
+    if (method === 'POST' && path.toLowerCase() === '/$batch') {
+      return this.handleBatch(`${parsedUrl.origin}/${version}`, body);
+    }
+
+    for (let i = this.routes.length - 1; i >= 0; i--) {
+      const route = this.routes[i];
+      const params = route.method === method ? this.matchSegments(route.segments, segments) : null;
+      if (params) {
+        return this.handleRoute(route, { body, headers, method, params, path, query, url });
+      }
+    }
+
+    return MockResponse.error(404, 'ResourceNotFound', `No mock route for ${method} ${path}`);
+  }
+
+  private async handleRoute(route: MockRoute, request: MockRequest): Promise<MockResponse> {
+    let response: MockResponse;
+    try {
+      const result = await route.handler(request);
+      response =
+        result instanceof MockResponse
+          ? result
+          : result === undefined
+          ? new MockResponse(204)
+          : new MockResponse(200, result);
+    } catch (e) {
+      response = e instanceof MockResponse ? e : MockResponse.error(500, 'InternalServerError', e && e.message);
+    }
+
+    let body = response.body;
+    const headers = { ...response.headers };
+    if (body !== null && typeof body === 'object') {
+      // copy the body so callers can't change the data of the backend
+      body = JSON.parse(JSON.stringify(body));
+
+      if (response.status >= 200 && response.status < 300 && request.method === 'GET') {
+        try {
+          body = applyQueryOptions(body, request.query, request.url, this.pageSize);
+        } catch (e) {
+          return MockResponse.error(400, 'BadRequest', e.message);
+        }
+      }
+
+      if (!Object.keys(headers).some(h => h.toLowerCase() === 'content-type')) {
+        headers['Content-Type'] = 'application/json';
+      }
+    }
+
+    return new MockResponse(response.status, body, headers);
+  }
+
+  private async handleBatch(root: string, body: any): Promise<MockResponse> {
+    const responses = [];
+    const failedIds: Set<string> = new Set();
+
+    for (const request of (body && body.requests) || []) {
+      if ((request.dependsOn || []).some(id => failedIds.has(id))) {
+        failedIds.add(request.id);
+        responses.push({
+          body: { error: { code: 'FailedDependency', message: 'A dependency failed' } },
+          id: request.id,
+          status: 424
+        });
+        continue;
+      }
+
+      const url = request.url.startsWith('/') ? request.url : `/${request.url}`;
+      const response = await this.handle(request.method, root + url, request.headers, request.body);
+      if (response.status >= 400) {
+        failedIds.add(request.id);
+      }
+      responses.push({ body: response.body, headers: response.headers, id: request.id, status: response.status });
+    }
+
+    return new MockResponse(200, { responses }, { 'Content-Type': 'application/json' });
+  }
+
+  private getSegments(path: string): string[] {
+    return path
+      .split('?')[0]
+      .split('/')
+      .filter(s => s);
+  }
+
+  private matchSegments(routeSegments: string[], segments: string[]): { [name: string]: string } {
+    if (routeSegments.length !== segments.length) {
+      return null;
+    }
+
+    const params: { [name: string]: string } = {};
+    for (let i = 0; i < segments.length; i++) {
+      const parameter = /^{(.+)}$/.exec(routeSegments[i]);
+      if (parameter) {
+        params[parameter[1]] = segments[i];
+      } else if (routeSegments[i].toLowerCase() !== segments[i].toLowerCase()) {
+        return null;
+      }
+    }
+    return params;
+  }
+}
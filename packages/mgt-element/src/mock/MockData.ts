@@ -0,0 +1,510 @@
+/**
+ * -------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation.  All Rights Reserved.  Licensed under the MIT License.
+ * See License in the project root for license information.
+ * -------------------------------------------------------------------------------------------
+ */
+
+import { MockBackend, MockRequest, MockResponse } from './MockBackend';
+
+/**
+ * 1x1 png returned for every photo
+ */
+const mockPhoto = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkaPj/HwAFFQKLt2l1rQAAAABJRU5ErkJggg==';
+
+/**
+ * id, display name, given name, surname, job title and department of the users
+ */
+const userProfiles = [
+  ['a1b2c3d4-0001-4000-8000-000000000001', 'Megan Bowen', 'Megan', 'Bowen', 'Marketing Manager', 'Marketing'],
+  ['a1b2c3d4-0002-4000-8000-000000000002', 'Adele Vance', 'Adele', 'Vance', 'Retail Manager', 'Retail'],
+  ['a1b2c3d4-0003-4000-8000-000000000003', 'Alex Wilber', 'Alex', 'Wilber', 'Marketing Assistant', 'Marketing'],
+  ['a1b2c3d4-0004-4000-8000-000000000004', 'Diego Siciliani', 'Diego', 'Siciliani', 'HR Manager', 'HR'],
+  ['a1b2c3d4-0005-4000-8000-000000000005', 'Isaiah Langer', 'Isaiah', 'Langer', 'Sales Rep', 'Sales'],
+  ['a1b2c3d4-0006-4000-8000-000000000006', 'Lee Gu', 'Lee', 'Gu', 'Director', 'Manufacturing'],
+  ['a1b2c3d4-0007-4000-8000-000000000007', 'Lynne Robbins', 'Lynne', 'Robbins', 'Planner', 'Retail']
+];
+
+/**
+ * availability and activity of the users, in the same order
+ */
+const presenceStates = [
+  ['Available', 'Available'],
+  ['Busy', 'InAMeeting'],
+  ['Away', 'Away'],
+  ['DoNotDisturb', 'Presenting'],
+  ['BeRightBack', 'BeRightBack'],
+  ['Offline', 'OffWork'],
+  ['Available', 'Available']
+];
+
+/**
+ * Registers the default dataset of the MockBackend:
+ * users, people, contacts, groups, photos, presence, profiles, calendar events, messages,
+ * drive items, insights, teams and channels, To Do, Outlook and Planner tasks.
+ * The signed in user is Megan Bowen and the events are scheduled relative to the current day.
+ *
+ * @export
+ * @param {MockBackend} backend
+ */
+export function registerDefaultData(backend: MockBackend) {
+  const users = userProfiles.map(([id, displayName, givenName, surname, jobTitle, department]) => {
+    const mail = `${givenName}${surname.charAt(0)}@contoso.com`;
+    return {
+      businessPhones: ['+1 425 555 0109'],
+      department,
+      displayName,
+      givenName,
+      id,
+      jobTitle,
+      mail,
+      mobilePhone: null,
+      officeLocation: '131/1104',
+      surname,
+      userPrincipalName: mail
+    };
+  });
+  const me = users[0];
+
+  const findUser = (request: MockRequest) =>
+    users.find(
+      u => u.id === request.params.id || u.userPrincipalName.toLowerCase() === (request.params.id || '').toLowerCase()
+    ) || MockResponse.error(404, 'Request_ResourceNotFound', `User '${request.params.id}' does not exist`);
+
+  backend.collection('/users', users);
+  backend.route('GET', '/users/{id}', findUser);
+  backend.route('GET', '/me', me);
+
+  const people = {
+    value: users.slice(1).map(user => ({
+      displayName: user.displayName,
+      givenName: user.givenName,
+      id: user.id,
+      jobTitle: user.jobTitle,
+      personType: { class: 'Person', subclass: 'OrganizationUser' },
+      scoredEmailAddresses: [{ address: user.mail, relevanceScore: 1 }],
+      surname: user.surname,
+      userPrincipalName: user.userPrincipalName
+    }))
+  };
+  backend.route('GET', '/me/people', people);
+  backend.route('GET', '/users/{id}/people', people);
+  backend.route('GET', '/me/manager', users[5]);
+  backend.route('GET', '/users/{id}/manager', users[5]);
+  backend.route('GET', '/me/directReports', { value: users.slice(2, 4) });
+  backend.route('GET', '/users/{id}/directReports', { value: users.slice(2, 4) });
+  backend.route('GET', '/me/mailboxSettings', {
+    dateFormat: 'M/d/yyyy',
+    timeFormat: 'h:mm tt',
+    timeZone: 'UTC'
+  });
+
+  backend.collection('/me/contacts', [
+    {
+      businessPhones: ['+1 425 555 0150'],
+      companyName: 'Fabrikam',
+      displayName: 'Patti Fernandez',
+      emailAddresses: [{ address: 'PattiF@fabrikam.com', name: 'Patti Fernandez' }],
+      givenName: 'Patti',
+      id: 'contact-1',
+      jobTitle: 'President',
+      surname: 'Fernandez'
+    },
+    {
+      businessPhones: ['+1 425 555 0151'],
+      companyName: 'Fabrikam',
+      displayName: 'Nestor Wilke',
+      emailAddresses: [{ address: 'NestorW@fabrikam.com', name: 'Nestor Wilke' }],
+      givenName: 'Nestor',
+      id: 'contact-2',
+      jobTitle: 'Director',
+      surname: 'Wilke'
+    }
+  ]);
+
+  // profile (beta), the same for every user
+  const profile = {
+    educationalActivities: [
+      {
+        endMonthYear: '2010-06-01',
+        institution: { displayName: 'University of Washington' },
+        program: { displayName: 'Master of Business Administration' },
+        startMonthYear: '2008-09-01'
+      }
+    ],
+    languages: [
+      { displayName: 'English', proficiency: 'nativeOrBilingual' },
+      { displayName: 'French', proficiency: 'professionalWorking' }
+    ],
+    positions: [
+      {
+        detail: {
+          company: { address: { city: 'Redmond', state: 'WA' }, displayName: 'Contoso' },
+          description: 'Leads the marketing of the product launches',
+          jobTitle: 'Marketing Manager',
+          startMonthYear: '2015-01-01'
+        }
+      }
+    ],
+    skills: [{ displayName: 'Marketing' }, { displayName: 'Public speaking' }]
+  };
+  backend.route('GET', '/me/profile', profile);
+  backend.route('GET', '/users/{id}/profile', profile);
+
+  // photos
+  const photoMetadata = { '@odata.mediaEtag': 'W/"mock-photo"', height: 1, id: '1X1', width: 1 };
+  const photo = () => new MockResponse(200, mockPhoto, { 'Content-Type': 'image/png' });
+  for (const resource of ['/me', '/users/{id}', '/groups/{id}', '/me/contacts/{id}']) {
+    backend.route('GET', `${resource}/photo`, photoMetadata);
+    backend.route('GET', `${resource}/photo/$value`, photo);
+    backend.route('GET', `${resource}/photos/{size}/$value`, photo);
+  }
+
+  // presence
+  const presences = users.map((user, i) => ({
+    activity: presenceStates[i][1],
+    availability: presenceStates[i][0],
+    id: user.id
+  }));
+  backend.route('GET', '/me/presence', presences[0]);
+  backend.route('GET', '/users/{id}/presence', (request: MockRequest) => {
+    return (
+      presences.find(p => p.id === request.params.id) || {
+        activity: 'PresenceUnknown',
+        availability: 'PresenceUnknown',
+        id: request.params.id
+      }
+    );
+  });
+  backend.route('POST', '/communications/getPresencesByUserId', (request: MockRequest) => ({
+    value: presences.filter(p => request.body && (request.body.ids || []).includes(p.id))
+  }));
+
+  backend.collection('/groups', [
+    {
+      description: 'Everything about the product launch',
+      displayName: 'Product launch',
+      groupTypes: ['Unified'],
+      id: 'group-1',
+      mail: 'ProductLaunch@contoso.com'
+    },
+    { description: 'Retail team', displayName: 'Retail', groupTypes: [], id: 'group-2', mail: 'Retail@contoso.com' }
+  ]);
+  for (const members of ['members', 'transitiveMembers']) {
+    backend.route('GET', `/groups/{id}/${members}`, { value: users.slice(0, 4) });
+    backend.route('GET', `/groups/{id}/${members}/microsoft.graph.user`, { value: users.slice(0, 4) });
+    backend.route('GET', `/groups/{id}/${members}/microsoft.graph.group`, { value: [] });
+  }
+
+  registerEvents(backend, users);
+  registerMessages(backend, users);
+  registerDriveItems(backend, users);
+  registerTeams(backend);
+  registerTasks(backend, users);
+}
+
+/**
+ * Registers the calendar events of the signed in user
+ */
+function registerEvents(backend: MockBackend, users: any[]) {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  const toDateTime = (dayOffset: number, hours: number) => ({
+    dateTime: new Date(today.getTime() + (dayOffset * 24 + hours) * 3600000).toISOString().replace('Z', '0000'),
+    timeZone: 'UTC'
+  });
+
+  const eventDetails: [string, number, number, number, string][] = [
+    ['Weekly sync', 0, 9, 9.5, 'Conference Room 1'],
+    ['Product review', 0, 11, 12, 'Microsoft Teams Meeting'],
+    ['Lunch with Adele', 0, 12.5, 13.5, 'Cafeteria'],
+    ['Marketing planning', 0, 15, 16, 'Conference Room 2'],
+    ['Customer visit', 1, 10, 11.5, 'Contoso HQ'],
+    ['Retrospective', 2, 14, 15, 'Microsoft Teams Meeting']
+  ];
+
+  const events = eventDetails.map(([subject, day, start, end, location], i) => ({
+    attendees: users.slice(1, 2 + (i % 3)).map(user => ({
+      emailAddress: { address: user.mail, name: user.displayName },
+      status: { response: 'accepted' },
+      type: 'required'
+    })),
+    bodyPreview: `${subject} agenda`,
+    end: toDateTime(day, end),
+    id: `event-${i + 1}`,
+    isAllDay: false,
+    location: { displayName: location },
+    organizer: { emailAddress: { address: users[0].mail, name: users[0].displayName } },
+    start: toDateTime(day, start),
+    subject,
+    webLink: `https://outlook.office.com/calendar/item/event-${i + 1}`
+  }));
+
+  backend.collection('/me/events', events);
+
+  const calendarView = (request: MockRequest) => {
+    const start = request.query.startdatetime ? new Date(request.query.startdatetime).getTime() : -Infinity;
+    const end = request.query.enddatetime ? new Date(request.query.enddatetime).getTime() : Infinity;
+    return {
+      value: events.filter(
+        e => new Date(e.end.dateTime + 'Z').getTime() > start && new Date(e.start.dateTime + 'Z').getTime() < end
+      )
+    };
+  };
+  backend.route('GET', '/me/calendarview', calendarView);
+  backend.route('GET', '/users/{id}/calendarview', calendarView);
+  backend.route('GET', '/groups/{id}/calendar/calendarview', calendarView);
+}
+
+/**
+ * Registers the mails received by the signed in user
+ */
+function registerMessages(backend: MockBackend, users: any[]) {
+  const subjects = ['Budget approval', 'Launch plan review', 'Customer feedback', 'Team offsite'];
+
+  backend.collection(
+    '/me/messages',
+    subjects.map((subject, i) => {
+      const sender = users[1 + (i % 3)];
+      return {
+        bodyPreview: `Hi Megan, here is an update about the ${subject.toLowerCase()}.`,
+        from: { emailAddress: { address: sender.mail, name: sender.displayName } },
+        id: `message-${i + 1}`,
+        isRead: i > 0,
+        receivedDateTime: new Date(Date.now() - (i + 1) * 3600000).toISOString(),
+        subject,
+        toRecipients: [{ emailAddress: { address: users[0].mail, name: users[0].displayName } }],
+        webLink: `https://outlook.office.com/mail/inbox/id/message-${i + 1}`
+      };
+    })
+  );
+}
+
+/**
+ * Registers the OneDrive files of the signed in user and the insights about them
+ */
+function registerDriveItems(backend: MockBackend, users: any[]) {
+  const me = users[0];
+  const now = new Date().toISOString();
+  const files: [string, string, number, string][] = [
+    ['Budget.xlsx', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 21504, 'Excel'],
+    ['Launch plan.docx', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 39424, 'Word'],
+    [
+      'Quarterly review.pptx',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      1048576,
+      'PowerPoint'
+    ],
+    ['Notes.txt', 'text/plain', 1024, 'Text'],
+    ['Logo.png', 'image/png', 4096, 'Image']
+  ];
+
+  const driveItems: any[] = files.map(([name, mimeType, size], i) => ({
+    createdBy: { user: { displayName: me.displayName, email: me.mail } },
+    file: { mimeType },
+    id: `drive-item-${i + 1}`,
+    lastModifiedBy: { user: { displayName: me.displayName, email: me.mail } },
+    lastModifiedDateTime: now,
+    name,
+    parentReference: { driveId: 'mock-drive', id: 'drive-root' },
+    size,
+    webUrl: `https://contoso-my.sharepoint.com/personal/megan/Documents/${encodeURIComponent(name)}`
+  }));
+  driveItems.push({
+    folder: { childCount: 0 },
+    id: 'drive-folder-1',
+    lastModifiedDateTime: now,
+    name: 'Shared',
+    parentReference: { driveId: 'mock-drive', id: 'drive-root' },
+    size: 0,
+    webUrl: 'https://contoso-my.sharepoint.com/personal/megan/Documents/Shared'
+  });
+
+  backend.collection('/me/drive/items', driveItems);
+  backend.route('GET', '/me/drive/root/children', () => ({ value: driveItems }));
+  backend.route('GET', '/me/drive/items/{id}/children', () => ({ value: [] }));
+  backend.route('GET', '/me/drive/recent', () => ({ value: driveItems.filter(item => item.file) }));
+  backend.route('GET', '/me/drive/root', {
+    folder: { childCount: driveItems.length },
+    id: 'drive-root',
+    name: 'root',
+    webUrl: 'https://contoso-my.sharepoint.com/personal/megan/Documents'
+  });
+  backend.route('GET', '/me/drive/items/{id}/thumbnails', { value: [] });
+
+  // drives of other users, groups and sites share the same items
+  const findItem = (request: MockRequest) =>
+    driveItems.find(item => item.id === request.params.itemId) ||
+    MockResponse.error(404, 'itemNotFound', `Item '${request.params.itemId}' does not exist`);
+  for (const drive of ['/drives/{driveId}', '/users/{id}/drive', '/groups/{id}/drive', '/sites/{id}/drive']) {
+    backend.route('GET', `${drive}/root/children`, () => ({ value: driveItems }));
+    backend.route('GET', `${drive}/items/{itemId}`, findItem);
+    backend.route('GET', `${drive}/items/{itemId}/children`, { value: [] });
+  }
+
+  // insights reference the drive items, only the shared ones have a lastShared
+  const insights = (shared: boolean) => ({
+    value: files.map(([name, mimeType, size, type], i) => {
+      const sharedBy = users[1 + (i % 3)];
+      return {
+        id: `insight-${i + 1}`,
+        lastShared: shared
+          ? {
+              sharedBy: { address: sharedBy.mail, displayName: sharedBy.displayName, id: sharedBy.id },
+              sharedDateTime: now
+            }
+          : undefined,
+        resourceReference: {
+          id: `drives/mock-drive/items/${driveItems[i].id}`,
+          type: 'microsoft.graph.driveItem',
+          webUrl: driveItems[i].webUrl
+        },
+        resourceVisualization: { containerDisplayName: 'Documents', mediaType: mimeType, title: name, type }
+      };
+    })
+  });
+  for (const resource of ['/me', '/users/{id}']) {
+    backend.route('GET', `${resource}/insights/trending`, insights(false));
+    backend.route('GET', `${resource}/insights/used`, insights(false));
+    backend.route('GET', `${resource}/insights/shared`, insights(true));
+    backend.route('GET', `${resource}/insights/{type}/{id}/resource`, (request: MockRequest) => {
+      const index = parseInt(request.params.id.replace('insight-', ''), 10) - 1;
+      return (
+        driveItems[index] || MockResponse.error(404, 'itemNotFound', `Insight '${request.params.id}' does not exist`)
+      );
+    });
+  }
+}
+
+/**
+ * Registers the teams joined by the signed in user and their channels
+ */
+function registerTeams(backend: MockBackend) {
+  const teams = [
+    { displayName: 'Product launch', id: 'team-1', isArchived: false },
+    { displayName: 'Retail', id: 'team-2', isArchived: false }
+  ];
+  const channels: { [teamId: string]: string[] } = {
+    'team-1': ['General', 'Marketing', 'Design'],
+    'team-2': ['General', 'Stores']
+  };
+
+  backend.route('GET', '/me/joinedTeams', { value: teams });
+  backend.route('GET', '/teams/{id}/channels', (request: MockRequest) => ({
+    value: (channels[request.params.id] || []).map((displayName, i) => ({
+      displayName,
+      id: `${request.params.id}-channel-${i + 1}`,
+      membershipType: 'standard'
+    }))
+  }));
+}
+
+/**
+ * Registers the To Do lists and the Planner plans of the signed in user
+ */
+function registerTasks(backend: MockBackend, users: any[]) {
+  const dueDate = new Date();
+  dueDate.setHours(0, 0, 0, 0);
+  dueDate.setDate(dueDate.getDate() + 3);
+  const dueDateTime = dueDate.toISOString();
+
+  // To Do
+  const todoLists = [
+    { displayName: 'Tasks', id: 'todo-list-1', isOwner: true, isShared: false, wellknownListName: 'defaultList' },
+    { displayName: 'Launch', id: 'todo-list-2', isOwner: true, isShared: false, wellknownListName: 'none' }
+  ];
+  backend.collection('/me/todo/lists', todoLists);
+  backend.collection('/me/todo/lists/todo-list-1/tasks', [
+    { id: 'todo-task-1', importance: 'normal', status: 'notStarted', title: 'Send the budget' },
+    { id: 'todo-task-2', importance: 'high', status: 'completed', title: 'Book the venue' },
+    {
+      dueDateTime: { dateTime: dueDateTime.replace('Z', ''), timeZone: 'UTC' },
+      id: 'todo-task-3',
+      importance: 'normal',
+      status: 'notStarted',
+      title: 'Review the launch plan'
+    }
+  ]);
+  backend.collection('/me/todo/lists/todo-list-2/tasks', [
+    { id: 'todo-task-4', importance: 'normal', status: 'notStarted', title: 'Prepare the press release' }
+  ]);
+
+  // Outlook tasks (beta)
+  backend.collection('/me/outlook/taskGroups', [
+    { changeKey: 'mock', groupKey: 'task-group-key-1', id: 'task-group-1', isDefaultGroup: true, name: 'My Tasks' }
+  ]);
+  backend.route('GET', '/me/outlook/taskGroups/{id}/taskFolders', {
+    value: [{ id: 'task-folder-1', isDefaultFolder: true, name: 'Tasks', parentGroupKey: 'task-group-key-1' }]
+  });
+  const outlookTasks: any[] = [
+    {
+      id: 'outlook-task-1',
+      importance: 'normal',
+      parentFolderId: 'task-folder-1',
+      status: 'notStarted',
+      subject: 'Call Adele'
+    },
+    {
+      completedDateTime: { dateTime: dueDateTime.replace('Z', ''), timeZone: 'UTC' },
+      id: 'outlook-task-2',
+      importance: 'low',
+      parentFolderId: 'task-folder-1',
+      status: 'completed',
+      subject: 'Order the brochures'
+    }
+  ].map(task => ({ '@odata.etag': 'W/"mock-etag"', ...task }));
+  backend.collection('/me/outlook/tasks', outlookTasks);
+  backend.route('GET', '/me/outlook/taskFolders/{id}/tasks', (request: MockRequest) => ({
+    value: outlookTasks.filter(t => t.parentFolderId === request.params.id)
+  }));
+  let nextOutlookTaskId = outlookTasks.length + 1;
+  backend.route('POST', '/me/outlook/taskFolders/{id}/tasks', (request: MockRequest) => {
+    const task = {
+      '@odata.etag': 'W/"mock-etag"',
+      id: `outlook-task-${nextOutlookTaskId++}`,
+      ...request.body,
+      parentFolderId: request.params.id
+    };
+    outlookTasks.push(task);
+    return new MockResponse(201, task);
+  });
+
+  // Planner
+  const groupId = 'group-1';
+  const plans = [{ id: 'plan-1', owner: groupId, title: 'Product launch' }];
+  const buckets = [
+    { id: 'bucket-1', name: 'To do', orderHint: '8586', planId: 'plan-1' },
+    { id: 'bucket-2', name: 'Done', orderHint: '8585', planId: 'plan-1' }
+  ];
+  const plannerTasks = [
+    ['planner-task-1', 'Define the audience', 'bucket-1', 0, users[1].id],
+    ['planner-task-2', 'Write the copy', 'bucket-1', 50, users[2].id],
+    ['planner-task-3', 'Approve the budget', 'bucket-2', 100, users[0].id]
+  ].map(([id, title, bucketId, percentComplete, assignee]) => ({
+    '@odata.etag': 'W/"mock-etag"',
+    assignments: { [assignee]: { '@odata.type': '#microsoft.graph.plannerAssignment', orderHint: ' !' } },
+    bucketId,
+    dueDateTime,
+    id,
+    percentComplete,
+    planId: 'plan-1',
+    title
+  }));
+
+  backend.route('GET', '/me/planner/plans', { value: plans });
+  backend.route('GET', `/groups/${groupId}/planner/plans`, { value: plans });
+  backend.collection('/planner/plans', plans);
+  backend.route('GET', '/planner/plans/{id}/buckets', (request: MockRequest) => ({
+    value: buckets.filter(b => b.planId === request.params.id)
+  }));
+  backend.collection('/planner/buckets', buckets);
+  backend.collection('/planner/tasks', plannerTasks);
+  backend.route('GET', '/me/planner/tasks', () => ({ value: plannerTasks }));
+  backend.route('GET', '/planner/plans/{id}/tasks', (request: MockRequest) => ({
+    value: plannerTasks.filter(t => t.planId === request.params.id)
+  }));
+  backend.route('GET', '/planner/buckets/{id}/tasks', (request: MockRequest) => ({
+    value: plannerTasks.filter(t => t.bucketId === request.params.id)
+  }));
+}
@@ -9,7 +9,6 @@ import {
   AuthenticationHandler,
   Client,
   Context,
-  HTTPMessageHandler,
   Middleware,
   RetryHandler,
   RetryHandlerOptions,
@@ -17,11 +16,15 @@ import {
 } from '@microsoft/microsoft-graph-client';
 import { MgtBaseComponent } from '../components/baseComponent';
 import { Graph } from '../Graph';
+import { createResponseFromBatch } from '../utils';
 import { chainMiddleware } from '../utils/GraphHelpers';
+import { RequestAttemptMiddleware, RequestTelemetryMiddleware } from '../utils/RequestTelemetryMiddleware';
+import { MockBackend } from './MockBackend';
 import { MockProvider } from './MockProvider';
 
 /**
- * MockGraph Instance
+ * MockGraph Instance.
+ * Requests are answered by a local MockBackend and never use the network
  *
  * @export
  * @class MockGraph
@@ -29,13 +32,27 @@ import { MockProvider } from './MockProvider';
  */
 // tslint:disable-next-line: max-classes-per-file
 export class MockGraph extends Graph {
-  constructor(mockProvider: MockProvider) {
+  /**
+   * the backend answering the requests, use it to register routes and fixtures
+   *
+   * @readonly
+   * @type {MockBackend}
+   * @memberof MockGraph
+   */
+  public get backend(): MockBackend {
+    return this._backend;
+  }
+
+  private _backend: MockBackend;
+
+  constructor(mockProvider: MockProvider, backend: MockBackend = new MockBackend()) {
     const middleware: Middleware[] = [
+      new RequestTelemetryMiddleware(),
       new AuthenticationHandler(mockProvider),
       new RetryHandler(new RetryHandlerOptions()),
+      new RequestAttemptMiddleware(),
       new TelemetryHandler(),
-      new MockMiddleware(),
-      new HTTPMessageHandler()
+      new MockMiddleware(backend)
     ];
 
     super(
@@ -43,6 +60,7 @@ export class MockGraph extends Graph {
         middleware: chainMiddleware(...middleware)
       })
     );
+    this._backend = backend;
   }
 
   /**
@@ -60,54 +78,44 @@ export class MockGraph extends Graph {
 }
 
 /**
- * Implements Middleware for the Mock Client to escape
- * the graph url from the request
+ * Implements Middleware for the Mock Client to answer
+ * the requests with the MockBackend
  *
  * @class MockMiddleware
  * @implements {Middleware}
  */
 // tslint:disable-next-line: max-classes-per-file
 class MockMiddleware implements Middleware {
-  /**
-   * @private
-   * A member to hold next middleware in the middleware chain
-   */
-  private _nextMiddleware: Middleware;
+  private _backend: MockBackend;
 
-  private static _baseUrl;
+  constructor(backend: MockBackend) {
+    this._backend = backend;
+  }
 
   // tslint:disable-next-line: completed-docs
   public async execute(context: Context): Promise<void> {
-    try {
-      const baseUrl = await MockMiddleware.getBaseUrl();
-      context.request = baseUrl + escape(context.request as string);
-    } catch (error) {
-      // ignore error
+    const options = context.options || {};
+    const url = typeof context.request === 'string' ? context.request : context.request.url;
+    const method = options.method || (typeof context.request === 'string' ? 'GET' : context.request.method);
+
+    const headers: { [header: string]: string } = {};
+    if (options.headers instanceof Headers) {
+      options.headers.forEach((value, key) => (headers[key] = value));
+    } else if (options.headers) {
+      Object.assign(headers, options.headers);
     }
-    return await this._nextMiddleware.execute(context);
+
+    const response = await this._backend.handle(method, url, headers, options.body);
+    context.response = createResponseFromBatch(response);
   }
+
   /**
-   * Handles setting of next middleware
+   * The MockMiddleware is the last middleware of the chain
    *
    * @param {Middleware} next
-   * @memberof SdkVersionMiddleware
+   * @memberof MockMiddleware
    */
   public setNext(next: Middleware): void {
-    this._nextMiddleware = next;
-  }
-
-  private static async getBaseUrl() {
-    if (!this._baseUrl) {
-      try {
-        // get the url we should be using from the endpoint service
-        let response = await fetch('https://cdn.graph.office.net/en-us/graph/api/proxy/endpoint');
-        this._baseUrl = (await response.json()) + '?url=';
-      } catch {
-        // fallback to hardcoded value
-        this._baseUrl = 'https://proxy.apisandbox.msdn.microsoft.com/svc?url=';
-      }
-    }
-
-    return this._baseUrl;
+    return;
   }
 }
@@ -6,6 +6,7 @@
  */
 
 import { IProvider, ProviderState } from '../providers/IProvider';
+import { MockBackend } from './MockBackend';
 import { MockGraph } from './MockGraph';
 
 /**
@@ -22,11 +23,21 @@ export class MockProvider extends IProvider {
   /**
    * new instance of mock graph provider
    *
+   * @type {MockGraph}
    * @memberof MockProvider
    */
-  public graph = new MockGraph(this);
-  constructor(signedIn: boolean = false) {
+  public graph: MockGraph;
+
+  /**
+   * Creates a new MockProvider
+   *
+   * @param {boolean} [signedIn=false]
+   * @param {MockBackend} [backend] answers the Graph requests, defaults to a backend with the default dataset
+   * @memberof MockProvider
+   */
+  constructor(signedIn: boolean = false, backend?: MockBackend) {
     super();
+    this.graph = new MockGraph(this, backend);
     if (signedIn) {
       this.setState(ProviderState.SignedIn);
     } else {
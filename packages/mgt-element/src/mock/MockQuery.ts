@@ -0,0 +1,482 @@
+/**
+ * -------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation.  All Rights Reserved.  Licensed under the MIT License.
+ * See License in the project root for license information.
+ * -------------------------------------------------------------------------------------------
+ */
+
+/**
+ * Values available to a compiled $filter expression
+ */
+interface FilterScope {
+  /**
+   * item being filtered
+   */
+  item: any;
+
+  /**
+   * variables declared by any/all lambdas
+   */
+  variables: { [name: string]: any };
+}
+
+/**
+ * Compiled $filter expression, evaluated for each item
+ */
+type FilterExpression = (scope: FilterScope) => any;
+
+/**
+ * Operators supported in $filter comparisons
+ */
+const comparisonOperators = ['eq', 'ne', 'gt', 'ge', 'lt', 'le', 'in'];
+
+/**
+ * Functions supported in $filter expressions
+ */
+const filterFunctions: { [name: string]: (...args: any[]) => any } = {
+  contains: (value, search) => toLowerCase(value).includes(toLowerCase(search)),
+  endswith: (value, search) => toLowerCase(value).endsWith(toLowerCase(search)),
+  startswith: (value, search) => toLowerCase(value).startsWith(toLowerCase(search)),
+  tolower: value => toLowerCase(value),
+  toupper: value => (typeof value === 'string' ? value.toUpperCase() : '')
+};
+
+/**
+ * Emulates the OData query options supported by the Graph
+ * ($filter, $search, $orderby, $count, $top, $skiptoken and $select) on the body of a mock response.
+ * Collections ({ value: [] }) are filtered, searched, sorted and paged,
+ * $select applies to collection items and single entities.
+ *
+ * @export
+ * @param {*} body body of the response
+ * @param {{ [option: string]: string }} query query options of the request, keyed by lower case name without $
+ * @param {string} url url of the request, used to create the next page link
+ * @param {number} pageSize size of the pages when $top is not set
+ * @returns {*}
+ */
+export function applyQueryOptions(body: any, query: { [option: string]: string }, url: string, pageSize: number): any {
+  if (!body || typeof body !== 'object') {
+    return body;
+  }
+
+  const select = query.select ? query.select.split(',').map(p => p.trim()) : null;
+
+  if (!Array.isArray(body.value)) {
+    return select ? selectProperties(body, select) : body;
+  }
+
+  let items: any[] = body.value;
+  if (query.filter) {
+    const filter = parseFilter(query.filter);
+    items = items.filter(item => !!filter({ item, variables: {} }));
+  }
+  if (query.search) {
+    items = searchItems(items, query.search);
+  }
+  if (query.orderby) {
+    items = orderItems(items, query.orderby);
+  }
+
+  const result = { ...body };
+  if (query.count === 'true') {
+    result['@odata.count'] = items.length;
+  }
+
+  const offset = parseInt(query.skiptoken, 10) || parseInt(query.skip, 10) || 0;
+  const top = parseInt(query.top, 10) || pageSize;
+  if (offset + top < items.length) {
+    const nextLink = new URL(url);
+    nextLink.searchParams.delete('$skip');
+    nextLink.searchParams.set('$skiptoken', (offset + top).toString());
+    result['@odata.nextLink'] = nextLink.toString();
+  } else {
+    delete result['@odata.nextLink'];
+  }
+  items = items.slice(offset, offset + top);
+
+  result.value = select ? items.map(item => selectProperties(item, select)) : items;
+  return result;
+}
+
+/**
+ * Compiles an OData $filter expression into a function testing items
+ *
+ * @export
+ * @param {string} filter
+ * @returns {FilterExpression}
+ */
+export function parseFilter(filter: string): FilterExpression {
+  const parser = new FilterParser(filter);
+  return parser.parse();
+}
+
+/**
+ * Returns a value as a lower case string, for case insensitive comparisons
+ */
+function toLowerCase(value: any): string {
+  return typeof value === 'string' ? value.toLowerCase() : value === null || value === undefined ? '' : `${value}`;
+}
+
+/**
+ * Returns the value of a property path (ex: start/dateTime) of an item
+ */
+function getPath(item: any, path: string[]): any {
+  let value = item;
+  for (const segment of path) {
+    value = getProperty(value, segment);
+  }
+  return value;
+}
+
+/**
+ * Returns the value of a property of an item, property names are matched without case like in the Graph
+ */
+function getProperty(item: any, name: string): any {
+  if (item === null || typeof item !== 'object') {
+    return undefined;
+  }
+  if (name in item) {
+    return item[name];
+  }
+  const key = Object.keys(item).find(k => k.toLowerCase() === name.toLowerCase());
+  return key !== undefined ? item[key] : undefined;
+}
+
+/**
+ * Compares two values, strings are compared without case
+ */
+function compareValues(a: any, b: any): number {
+  if (typeof a === 'string' && typeof b === 'string') {
+    a = a.toLowerCase();
+    b = b.toLowerCase();
+  }
+  if (a === b) {
+    return 0;
+  }
+  if (a === null || a === undefined) {
+    return -1;
+  }
+  if (b === null || b === undefined) {
+    return 1;
+  }
+  return a < b ? -1 : 1;
+}
+
+/**
+ * Keeps the selected properties of an item, with its id and OData annotations
+ */
+function selectProperties(item: any, select: string[]): any {
+  if (!item || typeof item !== 'object') {
+    return item;
+  }
+
+  const result: any = {};
+  for (const key of Object.keys(item)) {
+    if (key === 'id' || key.startsWith('@odata.') || select.some(p => p.toLowerCase() === key.toLowerCase())) {
+      result[key] = item[key];
+    }
+  }
+  return result;
+}
+
+/**
+ * Keeps the items matching one of the terms of a $search expression
+ */
+function searchItems(items: any[], search: string): any[] {
+  // ex: "displayName:adele" OR "mail:adele"
+  const terms: string[] = [];
+  const termRegex = /"([^"]*)"|(\S+)/g;
+  let match = termRegex.exec(search);
+  for (; match; match = termRegex.exec(search)) {
+    const term = match[1] !== undefined ? match[1] : match[2];
+    if (term && term !== 'OR' && term !== 'AND') {
+      terms.push(term.toLowerCase());
+    }
+  }
+
+  return items.filter(item =>
+    terms.some(term => {
+      const separator = term.indexOf(':');
+      if (separator > 0) {
+        // nested values are searched as a whole (ex: "from:adelev@contoso.com" on messages)
+        const value = getProperty(item, term.substring(0, separator));
+        return (value && typeof value === 'object' ? toLowerCase(JSON.stringify(value)) : toLowerCase(value)).includes(
+          term.substring(separator + 1)
+        );
+      }
+      return Object.keys(item).some(key => typeof item[key] === 'string' && item[key].toLowerCase().includes(term));
+    })
+  );
+}
+
+/**
+ * Sorts items by the properties of an $orderby expression
+ */
+function orderItems(items: any[], orderby: string): any[] {
+  const orders = orderby.split(',').map(o => {
+    const [property, direction] = o.trim().split(/\s+/);
+    return { path: property.split('/'), descending: direction && direction.toLowerCase() === 'desc' };
+  });
+
+  return [...items].sort((a, b) => {
+    for (const order of orders) {
+      const result = compareValues(getPath(a, order.path), getPath(b, order.path));
+      if (result) {
+        return order.descending ? -result : result;
+      }
+    }
+    return 0;
+  });
+}
+
+/**
+ * Recursive descent parser for OData $filter expressions
+ *
+ * @class FilterParser
+ */
+class FilterParser {
+  private tokens: string[];
+  private position: number = 0;
+
+  constructor(filter: string) {
+    this.tokens = this.tokenize(filter);
+  }
+
+  /**
+   * Compiles the expression
+   *
+   * @returns {FilterExpression}
+   * @memberof FilterParser
+   */
+  public parse(): FilterExpression {
+    const expression = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw new Error(`Unexpected '${this.tokens[this.position]}' in $filter`);
+    }
+    return expression;
+  }
+
+  private tokenize(filter: string): string[] {
+    const tokens: string[] = [];
+    const tokenRegex = /^\s*('(?:[^']|'')*'|\d{4}-\d{2}-\d{2}T[\d:.]+(?:Z|[+-]\d{2}:\d{2})?|-?\d+(?:\.\d+)?|[A-Za-z_$@][\w.@$]*|[()/,:])/;
+    let remaining = filter.trim();
+    while (remaining) {
+      const match = tokenRegex.exec(remaining);
+      if (!match) {
+        throw new Error(`Unsupported $filter '${filter}'`);
+      }
+      tokens.push(match[1]);
+      remaining = remaining.substring(match[0].length).trim();
+    }
+    return tokens;
+  }
+
+  private peek(): string {
+    return this.tokens[this.position];
+  }
+
+  private next(): string {
+    return this.tokens[this.position++];
+  }
+
+  private expect(token: string) {
+    if (this.next() !== token) {
+      throw new Error(`Expected '${token}' in $filter`);
+    }
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return !!token && token.toLowerCase() === keyword;
+  }
+
+  private parseOr(): FilterExpression {
+    let left = this.parseAnd();
+    while (this.isKeyword('or')) {
+      this.next();
+      const l = left;
+      const right = this.parseAnd();
+      left = scope => l(scope) || right(scope);
+    }
+    return left;
+  }
+
+  private parseAnd(): FilterExpression {
+    let left = this.parseNot();
+    while (this.isKeyword('and')) {
+      this.next();
+      const l = left;
+      const right = this.parseNot();
+      left = scope => l(scope) && right(scope);
+    }
+    return left;
+  }
+
+  private parseNot(): FilterExpression {
+    if (this.isKeyword('not')) {
+      this.next();
+      const expression = this.parseNot();
+      return scope => !expression(scope);
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): FilterExpression {
+    const left = this.parsePrimary();
+    const operator = this.peek() && this.peek().toLowerCase();
+    if (!comparisonOperators.includes(operator)) {
+      return left;
+    }
+    this.next();
+
+    if (operator === 'in') {
+      const values = this.parseList();
+      return scope => {
+        const value = left(scope);
+        return values.some(v => compareValues(value, v(scope)) === 0);
+      };
+    }
+
+    const right = this.parsePrimary();
+    return scope => {
+      const result = compareValues(left(scope), right(scope));
+      switch (operator) {
+        case 'eq':
+          return result === 0;
+        case 'ne':
+          return result !== 0;
+        case 'gt':
+          return result > 0;
+        case 'ge':
+          return result >= 0;
+        case 'lt':
+          return result < 0;
+        case 'le':
+          return result <= 0;
+      }
+    };
+  }
+
+  private parseList(): FilterExpression[] {
+    const values: FilterExpression[] = [];
+    this.expect('(');
+    while (this.peek() !== ')') {
+      values.push(this.parsePrimary());
+      if (this.peek() === ',') {
+        this.next();
+      }
+    }
+    this.expect(')');
+    return values;
+  }
+
+  private parsePrimary(): FilterExpression {
+    const token = this.next();
+    if (token === undefined) {
+      throw new Error('Unexpected end of $filter');
+    }
+
+    if (token === '(') {
+      const expression = this.parseOr();
+      this.expect(')');
+      return expression;
+    }
+
+    if (token.startsWith("'")) {
+      const value = token.substring(1, token.length - 1).replace(/''/g, "'");
+      return () => value;
+    }
+
+    if (/^\d{4}-\d{2}-\d{2}T/.test(token)) {
+      return () => token;
+    }
+
+    if (/^-?\d/.test(token)) {
+      const value = parseFloat(token);
+      return () => value;
+    }
+
+    const keyword = token.toLowerCase();
+    if (keyword === 'true' || keyword === 'false') {
+      return () => keyword === 'true';
+    }
+    if (keyword === 'null') {
+      return () => null;
+    }
+
+    if (this.peek() === '(') {
+      return this.parseFunction(keyword);
+    }
+
+    return this.parsePath(token);
+  }
+
+  private parseFunction(name: string): FilterExpression {
+    const fn = filterFunctions[name];
+    if (!fn) {
+      throw new Error(`Unsupported function '${name}' in $filter`);
+    }
+
+    const args: FilterExpression[] = [];
+    this.expect('(');
+    while (this.peek() !== ')') {
+      args.push(this.parseOr());
+      if (this.peek() === ',') {
+        this.next();
+      }
+    }
+    this.expect(')');
+
+    return scope => fn(...args.map(arg => arg(scope)));
+  }
+
+  private parsePath(first: string): FilterExpression {
+    const path = [first];
+    while (this.peek() === '/') {
+      this.next();
+      const segment = this.next();
+      const lambda = segment && segment.toLowerCase();
+      if ((lambda === 'any' || lambda === 'all') && this.peek() === '(') {
+        return this.parseLambda([...path], lambda);
+      }
+      path.push(segment);
+    }
+
+    return scope => this.resolvePath(scope, path);
+  }
+
+  private parseLambda(path: string[], lambda: string): FilterExpression {
+    this.expect('(');
+
+    // any() without a predicate checks that the collection isn't empty
+    if (this.peek() === ')') {
+      this.next();
+      return scope => {
+        const collection = this.resolvePath(scope, path);
+        return Array.isArray(collection) && collection.length > 0;
+      };
+    }
+
+    const variable = this.next();
+    this.expect(':');
+    const predicate = this.parseOr();
+    this.expect(')');
+
+    return scope => {
+      const collection = this.resolvePath(scope, path);
+      if (!Array.isArray(collection)) {
+        return false;
+      }
+      const test = (value: any) =>
+        !!predicate({ item: scope.item, variables: { ...scope.variables, [variable]: value } });
+      return lambda === 'any' ? collection.some(test) : collection.every(test);
+    };
+  }
+
+  private resolvePath(scope: FilterScope, path: string[]): any {
+    if (path[0] in scope.variables) {
+      return getPath(scope.variables[path[0]], path.slice(1));
+    }
+    return getPath(scope.item, path);
+  }
+}
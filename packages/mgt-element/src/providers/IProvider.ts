@@ -35,8 +35,10 @@ export abstract class IProvider implements AuthenticationProvider {
    */
   protected isMultipleAccountDisabled: boolean = true;
   private _state: ProviderState;
+  private _lastError: ProviderError = null;
   private _loginChangedDispatcher = new EventDispatcher<LoginChangedEvent>();
   private _activeAccountChangedDispatcher = new EventDispatcher<ActiveAccountChanged>();
+  private _accountRemovedDispatcher = new EventDispatcher<AccountRemovedEvent>();
 
   /**
    * Enable/Disable incremental consent
@@ -58,6 +60,17 @@ export abstract class IProvider implements AuthenticationProvider {
     return this._state;
   }
 
+  /**
+   * Error of the last failed sign in, cleared when the provider is signed in
+   *
+   * @readonly
+   * @type {ProviderError}
+   * @memberof IProvider
+   */
+  public get lastError(): ProviderError {
+    return this._lastError;
+  }
+
   /**
    * Incremental consent setting
    *
@@ -78,6 +91,17 @@ export abstract class IProvider implements AuthenticationProvider {
     this._isIncrementalConsentDisabled = disabled;
   }
 
+  /**
+   * Whether the provider can sign in several accounts at once and switch between them
+   *
+   * @readonly
+   * @type {boolean}
+   * @memberof IProvider
+   */
+  public get isMultiAccountSupportedAndEnabled(): boolean {
+    return !this.isMultipleAccountDisabled && typeof this.getAllAccounts === 'function';
+  }
+
   /**
    * Name used for analytics
    *
@@ -96,12 +120,24 @@ export abstract class IProvider implements AuthenticationProvider {
    * sets state of Provider and fires loginchangedDispatcher
    *
    * @param {ProviderState} state
+   * @param {ProviderError} [error] why the sign in failed, when the state is ProviderState.Error
    * @memberof IProvider
    */
-  public setState(state: ProviderState) {
-    if (state !== this._state) {
+  public setState(state: ProviderState, error?: ProviderError) {
+    const previousState = this._state;
+    if (state === ProviderState.Error) {
+      this._lastError = error || { reason: ProviderErrorReason.Unknown };
+    } else if (state === ProviderState.SignedIn) {
+      this._lastError = null;
+    }
+
+    if (state !== previousState || state === ProviderState.Error) {
       this._state = state;
-      this._loginChangedDispatcher.fire({});
+      this._loginChangedDispatcher.fire({
+        error: state === ProviderState.Error ? this._lastError : undefined,
+        previousState,
+        state
+      });
     }
   }
 
@@ -140,6 +176,24 @@ export abstract class IProvider implements AuthenticationProvider {
    */
   public logout?(): Promise<void>;
 
+  /**
+   * optional implementation that signs in the user without interaction when a session is available
+   * (used to sign in when another tab signed in)
+   *
+   * @returns {Promise<void>}
+   * @memberof IProvider
+   */
+  public trySilentSignIn?(): Promise<void>;
+
+  /**
+   * optional implementation that can be called to sign out all signed in accounts
+   * (used by mgt-login when multiple accounts are supported)
+   *
+   * @returns {Promise<void>}
+   * @memberof IProvider
+   */
+  public logoutAll?(): Promise<void>;
+
   /**
    * Returns all signed in accounts.
    *
@@ -148,6 +202,14 @@ export abstract class IProvider implements AuthenticationProvider {
    */
   public getAllAccounts?(): IProviderAccount[];
 
+  /**
+   * Returns the account currently used to make Graph calls.
+   *
+   * @return {*}  {IProviderAccount}
+   * @memberof IProvider
+   */
+  public getActiveAccount?(): IProviderAccount;
+
   /**
    * Switch between two signed in accounts
    *
@@ -187,6 +249,38 @@ export abstract class IProvider implements AuthenticationProvider {
     this._activeAccountChangedDispatcher.fire({});
   }
 
+  /**
+   * Event handler when an account is signed out while other accounts stay signed in
+   *
+   * @param {EventHandler<AccountRemovedEvent>} eventHandler
+   * @memberof IProvider
+   */
+  public onAccountRemoved(eventHandler: EventHandler<AccountRemovedEvent>) {
+    this._accountRemovedDispatcher.add(eventHandler);
+  }
+
+  /**
+   * Removes event handler for when an account is removed
+   *
+   * @param {EventHandler<AccountRemovedEvent>} eventHandler
+   * @memberof IProvider
+   */
+  public removeAccountRemovedHandler(eventHandler: EventHandler<AccountRemovedEvent>) {
+    this._accountRemovedDispatcher.remove(eventHandler);
+  }
+
+  /**
+   * Call when an account is signed out while other accounts stay signed in, the cached data of the account is cleared.
+   * The cached data of the last account is cleared when the provider is signed out
+   *
+   * @protected
+   * @param {IProviderAccount} account
+   * @memberof IProvider
+   */
+  protected fireAccountRemoved(account: IProviderAccount) {
+    this._accountRemovedDispatcher.fire({ account });
+  }
+
   /**
    * uses scopes to recieve access token
    *
@@ -216,14 +310,123 @@ export abstract class IProvider implements AuthenticationProvider {
  * @interface ActiveAccountChanged
  */
 export interface ActiveAccountChanged {}
+
+/**
+ * AccountRemoved Event
+ *
+ * @export
+ * @interface AccountRemovedEvent
+ */
+export interface AccountRemovedEvent {
+  /**
+   * the account that was signed out
+   *
+   * @type {IProviderAccount}
+   * @memberof AccountRemovedEvent
+   */
+  account: IProviderAccount;
+}
 /**
  * loginChangedEvent
  *
  * @export
  * @interface LoginChangedEvent
  */
-// tslint:disable-next-line: no-empty-interface
-export interface LoginChangedEvent {}
+export interface LoginChangedEvent {
+  /**
+   * new state of the provider
+   *
+   * @type {ProviderState}
+   * @memberof LoginChangedEvent
+   */
+  state: ProviderState;
+
+  /**
+   * state of the provider before the change
+   *
+   * @type {ProviderState}
+   * @memberof LoginChangedEvent
+   */
+  previousState: ProviderState;
+
+  /**
+   * why the sign in failed, when the state is ProviderState.Error
+   *
+   * @type {ProviderError}
+   * @memberof LoginChangedEvent
+   */
+  error?: ProviderError;
+}
+
+/**
+ * Reason of a failed sign in
+ *
+ * @export
+ * @enum {number}
+ */
+export enum ProviderErrorReason {
+  /**
+   * Unknown = 0
+   */
+  Unknown,
+  /**
+   * The user could not be signed in without interaction, for a reason other than an expired session
+   * SilentSignInFailed = 1
+   */
+  SilentSignInFailed,
+  /**
+   * The browser blocked the sign in popup
+   * PopupBlocked = 2
+   */
+  PopupBlocked,
+  /**
+   * The session or refresh token of the user expired, the user needs to sign in again
+   * RefreshTokenExpired = 3
+   */
+  RefreshTokenExpired,
+  /**
+   * The user or the administrator didn't consent to the permissions of the app
+   * ConsentDenied = 4
+   */
+  ConsentDenied,
+  /**
+   * The interactive sign in failed for another reason
+   * LoginFailed = 5
+   */
+  LoginFailed
+}
+
+/**
+ * Details of a failed sign in, available with IProvider.lastError
+ *
+ * @export
+ * @interface ProviderError
+ */
+export interface ProviderError {
+  /**
+   * reason of the failure
+   *
+   * @type {ProviderErrorReason}
+   * @memberof ProviderError
+   */
+  reason: ProviderErrorReason;
+
+  /**
+   * message of the underlying error, if any
+   *
+   * @type {string}
+   * @memberof ProviderError
+   */
+  message?: string;
+
+  /**
+   * underlying error thrown by the authentication library, if any
+   *
+   * @type {*}
+   * @memberof ProviderError
+   */
+  error?: any;
+}
 
 /**
  * LoginType
@@ -260,7 +463,13 @@ export enum ProviderState {
   /**
    * SignedIn = 2
    */
-  SignedIn
+  SignedIn,
+  /**
+   * Signing in failed, the reason is available with IProvider.lastError.
+   * Components behave as when signed out, calling login() retries
+   * Error = 3
+   */
+  Error
 }
 
 /**
@@ -270,5 +479,13 @@ export enum ProviderState {
  */
 export type IProviderAccount = {
   username?: string;
+  /**
+   * display name of the account
+   */
+  name?: string;
   id: string;
+  /**
+   * id of the tenant (directory) the account signed in to
+   */
+  tenantId?: string;
 };
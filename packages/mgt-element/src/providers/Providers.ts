@@ -5,11 +5,18 @@
  * -------------------------------------------------------------------------------------------
  */
 
-import { Client } from '@microsoft/microsoft-graph-client';
+import { Client, Middleware } from '@microsoft/microsoft-graph-client';
 import { User } from '@microsoft/microsoft-graph-types';
 
 import { EventDispatcher, EventHandler } from '../utils/EventDispatcher';
-import { IProvider, ProviderState } from './IProvider';
+import { GraphEndpoint, MICROSOFT_GRAPH_DEFAULT_ENDPOINT } from '../utils/GraphHelpers';
+import { CacheLookupEvent, RequestCompletedEvent, RequestStartedEvent } from '../utils/RequestTelemetry';
+import {
+  cacheLookupDispatcher,
+  requestCompletedDispatcher,
+  requestStartedDispatcher
+} from '../utils/RequestTelemetryMiddleware';
+import { AccountRemovedEvent, IProvider, ProviderState } from './IProvider';
 
 /**
  * Provides implementation for acquiring the necessary access token for calling the Microsoft Graph APIs.
@@ -34,11 +41,13 @@ export class Providers {
       if (this._globalProvider) {
         this._globalProvider.removeStateChangedHandler(this.handleProviderStateChanged);
         this._globalProvider.removeActiveAccountChangedHandler(this.handleActiveAccountChanged);
+        this._globalProvider.removeAccountRemovedHandler(this.handleAccountRemoved);
       }
 
       if (provider) {
         provider.onStateChanged(this.handleProviderStateChanged);
         provider.onActiveAccountChanged(this.handleActiveAccountChanged);
+        provider.onAccountRemoved(this.handleAccountRemoved);
       }
 
       this._globalProvider = provider;
@@ -46,6 +55,39 @@ export class Providers {
     }
   }
 
+  /**
+   * the Microsoft Graph endpoint used for all requests, change it to use a national cloud.
+   * Set it before creating the provider, Graph instances keep the endpoint they were created with.
+   *
+   * @static
+   * @type {GraphEndpoint}
+   * @memberof Providers
+   */
+  public static get baseUrl(): GraphEndpoint {
+    return this._baseUrl;
+  }
+
+  public static set baseUrl(baseUrl: GraphEndpoint) {
+    this._baseUrl = (baseUrl ? baseUrl.replace(/\/+$/, '') : MICROSOFT_GRAPH_DEFAULT_ENDPOINT) as GraphEndpoint;
+  }
+
+  /**
+   * middleware added to the Graph client of the providers, right before the requests are sent to the network
+   * (ex: a RecordMiddleware to record the requests of a page, or a ReplayMiddleware to replay them).
+   * Set it before creating the provider, Graph instances keep the middleware they were created with.
+   *
+   * @static
+   * @type {Middleware[]}
+   * @memberof Providers
+   */
+  public static get customMiddleware(): Middleware[] {
+    return this._customMiddleware;
+  }
+
+  public static set customMiddleware(middleware: Middleware[]) {
+    this._customMiddleware = middleware || [];
+  }
+
   /**
    * Fires event when Provider changes state
    *
@@ -90,6 +132,95 @@ export class Providers {
     this._activeAccountChangedDispatcher.remove(event);
   }
 
+  /**
+   * Fires event when an account of the global provider is signed out while other accounts stay signed in
+   *
+   * @static
+   * @param {EventHandler<AccountRemovedEvent>} event
+   * @memberof Providers
+   */
+  public static onAccountRemoved(event: EventHandler<AccountRemovedEvent>) {
+    this._accountRemovedDispatcher.add(event);
+  }
+
+  /**
+   * Remove event handler
+   *
+   * @static
+   * @param {EventHandler<AccountRemovedEvent>} event
+   * @memberof Providers
+   */
+  public static removeAccountRemovedListener(event: EventHandler<AccountRemovedEvent>) {
+    this._accountRemovedDispatcher.remove(event);
+  }
+
+  /**
+   * Fires event when a Graph request made with a provider starts
+   *
+   * @static
+   * @param {EventHandler<RequestStartedEvent>} event
+   * @memberof Providers
+   */
+  public static onRequestStarted(event: EventHandler<RequestStartedEvent>) {
+    requestStartedDispatcher.add(event);
+  }
+
+  /**
+   * Remove event handler
+   *
+   * @static
+   * @param {EventHandler<RequestStartedEvent>} event
+   * @memberof Providers
+   */
+  public static removeRequestStartedListener(event: EventHandler<RequestStartedEvent>) {
+    requestStartedDispatcher.remove(event);
+  }
+
+  /**
+   * Fires event when a Graph request made with a provider completes,
+   * with its duration, status, retries and throttling delay
+   *
+   * @static
+   * @param {EventHandler<RequestCompletedEvent>} event
+   * @memberof Providers
+   */
+  public static onRequestCompleted(event: EventHandler<RequestCompletedEvent>) {
+    requestCompletedDispatcher.add(event);
+  }
+
+  /**
+   * Remove event handler
+   *
+   * @static
+   * @param {EventHandler<RequestCompletedEvent>} event
+   * @memberof Providers
+   */
+  public static removeRequestCompletedListener(event: EventHandler<RequestCompletedEvent>) {
+    requestCompletedDispatcher.remove(event);
+  }
+
+  /**
+   * Fires event when a value is looked up in the cache, with whether it was a hit or a miss
+   *
+   * @static
+   * @param {EventHandler<CacheLookupEvent>} event
+   * @memberof Providers
+   */
+  public static onCacheLookup(event: EventHandler<CacheLookupEvent>) {
+    cacheLookupDispatcher.add(event);
+  }
+
+  /**
+   * Remove event handler
+   *
+   * @static
+   * @param {EventHandler<CacheLookupEvent>} event
+   * @memberof Providers
+   */
+  public static removeCacheLookupListener(event: EventHandler<CacheLookupEvent>) {
+    cacheLookupDispatcher.remove(event);
+  }
+
   /**
    * Gets the current signed in user
    *
@@ -131,7 +262,11 @@ export class Providers {
 
   private static _activeAccountChangedDispatcher: EventDispatcher<any> = new EventDispatcher<any>();
 
+  private static _accountRemovedDispatcher: EventDispatcher<AccountRemovedEvent> = new EventDispatcher<AccountRemovedEvent>();
+
   private static _globalProvider: IProvider;
+  private static _baseUrl: GraphEndpoint = MICROSOFT_GRAPH_DEFAULT_ENDPOINT;
+  private static _customMiddleware: Middleware[] = [];
   private static _me: User;
 
   private static handleProviderStateChanged() {
@@ -146,6 +281,10 @@ export class Providers {
   private static handleActiveAccountChanged() {
     Providers._activeAccountChangedDispatcher.fire(null);
   }
+
+  private static handleAccountRemoved(e: AccountRemovedEvent) {
+    Providers._accountRemovedDispatcher.fire(e);
+  }
 }
 
 /**
@@ -0,0 +1,219 @@
+/**
+ * -------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation.  All Rights Reserved.  Licensed under the MIT License.
+ * See License in the project root for license information.
+ * -------------------------------------------------------------------------------------------
+ */
+
+import { AuthenticationHandlerOptions, Context, Middleware } from '@microsoft/microsoft-graph-client';
+import { createAbortError, createResponseFromBatch, getHeaders } from '../utils';
+import { AutoBatchMiddlewareOptions } from './AutoBatchMiddlewareOptions';
+
+/**
+ * A GET request waiting to be sent in a batch
+ */
+interface QueuedRequest {
+  /**
+   * context of the original request, the response is set on it
+   */
+  context: Context;
+
+  /**
+   * url of the request, relative to the Graph version
+   */
+  url: string;
+
+  /**
+   * completes the original request
+   */
+  resolve: () => void;
+
+  /**
+   * fails the original request
+   */
+  reject: (error: any) => void;
+}
+
+/**
+ * Statuses of sub requests that are sent again on their own,
+ * so the retry middleware can handle them
+ */
+const retryStatuses = [429, 503, 504];
+
+/**
+ * Implements Middleware for the Graph sdk to coalesce GET requests
+ * made within a short window into $batch requests.
+ * Only requests with AutoBatchMiddlewareOptions are batched.
+ *
+ * @class AutoBatchMiddleware
+ * @implements {Middleware}
+ */
+export class AutoBatchMiddleware implements Middleware {
+  /**
+   * @private
+   * A member to hold next middleware in the middleware chain
+   */
+  private _nextMiddleware: Middleware;
+
+  /**
+   * Requests waiting to be sent, grouped by Graph version and scopes
+   */
+  private _queues: Map<string, QueuedRequest[]> = new Map();
+
+  // tslint:disable-next-line: completed-docs
+  public async execute(context: Context): Promise<void> {
+    const options = context.middlewareControl
+      ? (context.middlewareControl.getMiddlewareOptions(AutoBatchMiddlewareOptions) as AutoBatchMiddlewareOptions)
+      : null;
+    const method = ((context.options && context.options.method) || 'GET').toUpperCase();
+
+    // split the url between the version root of the client (ex: https://host/api/v1.0) and the resource
+    const root = options && options.root;
+    const url = typeof context.request === 'string' ? context.request : null;
+    const resource = root && url && url.startsWith(root + '/') ? url.substr(root.length) : null;
+
+    if (!options || method !== 'GET' || !resource || resource.startsWith('/$batch')) {
+      return await this._nextMiddleware.execute(context);
+    }
+
+    const key = JSON.stringify([root, this.getScopes(context)]);
+    const signal = context.options && context.options.signal;
+
+    if (signal && signal.aborted) {
+      throw createAbortError();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      let queue = this._queues.get(key);
+      if (!queue) {
+        queue = [];
+        this._queues.set(key, queue);
+
+        const sendQueue = () => {
+          this._queues.delete(key);
+          this.sendRequests(root, queue, options.maxBatchSize);
+        };
+
+        if (options.delay) {
+          setTimeout(sendQueue, options.delay);
+        } else {
+          Promise.resolve().then(sendQueue);
+        }
+      }
+
+      // a batched request can't be aborted, only its caller stops waiting for it
+      const onAbort = () => {
+        const index = queue.indexOf(request);
+        if (index >= 0) {
+          queue.splice(index, 1);
+        }
+        reject(createAbortError());
+      };
+      const removeAbortListener = () => {
+        if (signal) {
+          signal.removeEventListener('abort', onAbort);
+        }
+      };
+
+      const request: QueuedRequest = {
+        context,
+        reject: error => {
+          removeAbortListener();
+          reject(error);
+        },
+        resolve: () => {
+          removeAbortListener();
+          resolve();
+        },
+        url: resource
+      };
+      queue.push(request);
+
+      if (signal) {
+        signal.addEventListener('abort', onAbort);
+      }
+    });
+  }
+
+  /**
+   * Handles setting of next middleware
+   *
+   * @param {Middleware} next
+   * @memberof AutoBatchMiddleware
+   */
+  public setNext(next: Middleware): void {
+    this._nextMiddleware = next;
+  }
+
+  private getScopes(context: Context): string[] {
+    const authOptions = context.middlewareControl.getMiddlewareOptions(
+      AuthenticationHandlerOptions
+    ) as AuthenticationHandlerOptions;
+
+    if (authOptions && authOptions.authenticationProviderOptions && authOptions.authenticationProviderOptions.scopes) {
+      return [...authOptions.authenticationProviderOptions.scopes].sort();
+    }
+    return [];
+  }
+
+  private sendRequests(root: string, requests: QueuedRequest[], maxBatchSize: number) {
+    for (let i = 0; i < requests.length; i += maxBatchSize) {
+      this.sendBatch(root, requests.slice(i, i + maxBatchSize));
+    }
+  }
+
+  private async sendBatch(root: string, requests: QueuedRequest[]) {
+    if (requests.length === 1) {
+      this.sendRequest(requests[0]);
+      return;
+    }
+
+    const body = {
+      requests: requests.map((request, i) => ({
+        headers: getHeaders(request.context.options && request.context.options.headers),
+        id: i.toString(),
+        method: 'GET',
+        url: request.url
+      }))
+    };
+
+    // the batch shares the scopes and middleware options of its requests
+    const batchContext: Context = {
+      middlewareControl: requests[0].context.middlewareControl,
+      options: {
+        body: JSON.stringify(body),
+        headers: { 'Content-Type': 'application/json' },
+        method: 'POST'
+      },
+      request: `${root}/$batch`
+    };
+
+    let batchResponses: any[];
+    try {
+      await this._nextMiddleware.execute(batchContext);
+      if (!batchContext.response || !batchContext.response.ok) {
+        // the batch itself failed, fall back to sending the requests one by one
+        requests.forEach(request => this.sendRequest(request));
+        return;
+      }
+      batchResponses = (await batchContext.response.json()).responses || [];
+    } catch (e) {
+      requests.forEach(request => request.reject(e));
+      return;
+    }
+
+    requests.forEach((request, i) => {
+      const response = batchResponses.find(r => r.id === i.toString());
+      if (!response || retryStatuses.includes(response.status)) {
+        this.sendRequest(request);
+      } else {
+        request.context.response = createResponseFromBatch(response);
+        request.resolve();
+      }
+    });
+  }
+
+  private sendRequest(request: QueuedRequest) {
+    this._nextMiddleware.execute(request.context).then(request.resolve, request.reject);
+  }
+}
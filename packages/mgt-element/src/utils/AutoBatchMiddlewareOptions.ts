@@ -0,0 +1,73 @@
+/**
+ * -------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation.  All Rights Reserved.  Licensed under the MIT License.
+ * See License in the project root for license information.
+ * -------------------------------------------------------------------------------------------
+ */
+
+import { MiddlewareOptions } from '@microsoft/microsoft-graph-client';
+
+/**
+ * Options used to coalesce GET requests into $batch requests
+ *
+ * @export
+ * @interface AutoBatchOptions
+ */
+export interface AutoBatchOptions {
+  /**
+   * Time (in ms) to wait for other requests before sending the batch.
+   * 0 only waits for the requests made in the current microtask
+   *
+   * @type {number}
+   * @memberof AutoBatchOptions
+   */
+  delay?: number;
+
+  /**
+   * Maximum number of requests sent in a single batch, up to 20
+   *
+   * @type {number}
+   * @memberof AutoBatchOptions
+   */
+  maxBatchSize?: number;
+}
+
+/**
+ * Middleware Options used to mark requests that can be coalesced into a $batch request
+ *
+ * @export
+ * @class AutoBatchMiddlewareOptions
+ * @implements {MiddlewareOptions}
+ */
+export class AutoBatchMiddlewareOptions implements MiddlewareOptions {
+  /**
+   * Time (in ms) to wait for other requests before sending the batch
+   *
+   * @type {number}
+   * @memberof AutoBatchMiddlewareOptions
+   */
+  public delay: number;
+
+  /**
+   * Maximum number of requests sent in a single batch
+   *
+   * @type {number}
+   * @memberof AutoBatchMiddlewareOptions
+   */
+  public maxBatchSize: number;
+
+  /**
+   * Url of the Graph version the requests are relative to (ex: https://graph.microsoft.com/v1.0),
+   * the $batch request is sent to it. Requests outside of it are not batched
+   *
+   * @type {string}
+   * @memberof AutoBatchMiddlewareOptions
+   */
+  public root: string;
+
+  constructor(options: AutoBatchOptions = {}, root?: string) {
+    this.root = root ? root.replace(/\/+$/, '') : null;
+    this.delay = options.delay || 0;
+    this.maxBatchSize = Math.min(Math.max(options.maxBatchSize || 20, 1), 20);
+  }
+}
@@ -6,11 +6,33 @@
  */
 
 import { BatchResponse, IBatch } from '../IBatch';
-import { BatchRequestContent, MiddlewareOptions } from '@microsoft/microsoft-graph-client';
+import { MiddlewareOptions } from '@microsoft/microsoft-graph-client';
 import { delay } from '../utils';
 import { prepScopes } from './GraphHelpers';
 import { IGraph } from '../IGraph';
 
+/**
+ * Statuses of requests that are retried
+ */
+const retryStatuses = [429, 503, 504];
+
+/**
+ * Maximum number of times a request is retried
+ */
+const maxRetries = 3;
+
+/**
+ * returns the value of a header, ignoring the case of its name
+ *
+ * @param {{ [header: string]: string }} headers
+ * @param {string} name
+ * @returns {string}
+ */
+function getHeader(headers: { [header: string]: string }, name: string): string {
+  const key = Object.keys(headers).find(h => h.toLowerCase() === name.toLowerCase());
+  return key ? headers[key] : undefined;
+}
+
 /**
  * Represents a request to be executed in a batch
  *
@@ -59,6 +81,22 @@ export class BatchRequest {
    */
   public id: string;
 
+  /**
+   * The body of the request, for POST, PATCH and PUT requests
+   *
+   * @type {*}
+   * @memberof BatchRequest
+   */
+  public body: any;
+
+  /**
+   * The ids of the requests that must complete before this request is executed
+   *
+   * @type {string[]}
+   * @memberof BatchRequest
+   */
+  public dependsOn: string[];
+
   constructor(index, id, resource: string, method: string) {
     if (resource.charAt(0) !== '/') {
       resource = '/' + resource;
@@ -78,12 +116,11 @@ export class BatchRequest {
  */
 // tslint:disable-next-line: max-classes-per-file
 export class Batch implements IBatch {
-  // this doesn't really mater what it is as long as it's a root base url
-  // otherwise a Request assumes the current path and that could change the relative path
-  private static baseUrl = 'https://graph.microsoft.com';
-
   private allRequests: BatchRequest[];
   private requestsQueue: number[];
+  private executedIds: Set<string>;
+  private failedIds: Set<string>;
+  private retryCounts: Map<number, number>;
   private scopes: string[];
   private retryAfter: number;
 
@@ -95,6 +132,9 @@ export class Batch implements IBatch {
     this.graph = graph;
     this.allRequests = [];
     this.requestsQueue = [];
+    this.executedIds = new Set();
+    this.failedIds = new Set();
+    this.retryCounts = new Map();
     this.scopes = [];
     this.nextIndex = 0;
     this.retryAfter = 0;
@@ -116,22 +156,89 @@ export class Batch implements IBatch {
    * @param {string} id
    * @param {string} resource
    * @param {string[]} [scopes]
+   * @param {{ [header: string]: string }} [headers]
+   * @param {string[]} [dependsOn] ids of the requests that must complete before this request
    * @memberof Batch
    */
-  public get(id: string, resource: string, scopes?: string[], headers?: { [header: string]: string }) {
-    const index = this.nextIndex++;
-    const request = new BatchRequest(index, id, resource, 'GET');
-    request.headers = headers;
-    this.allRequests.push(request);
-    this.requestsQueue.push(index);
-    if (scopes) {
-      this.scopes = this.scopes.concat(scopes);
-    }
+  public get(
+    id: string,
+    resource: string,
+    scopes?: string[],
+    headers?: { [header: string]: string },
+    dependsOn?: string[]
+  ) {
+    this.addRequest(id, 'GET', resource, null, scopes, headers, dependsOn);
+  }
+
+  /**
+   * sets new POST request and scopes
+   *
+   * @param {string} id
+   * @param {string} resource
+   * @param {*} body sent as JSON
+   * @param {string[]} [scopes]
+   * @param {{ [header: string]: string }} [headers]
+   * @param {string[]} [dependsOn] ids of the requests that must complete before this request
+   * @memberof Batch
+   */
+  public post(
+    id: string,
+    resource: string,
+    body: any,
+    scopes?: string[],
+    headers?: { [header: string]: string },
+    dependsOn?: string[]
+  ) {
+    this.addRequest(id, 'POST', resource, body, scopes, headers, dependsOn);
+  }
+
+  /**
+   * sets new PATCH request and scopes
+   *
+   * @param {string} id
+   * @param {string} resource
+   * @param {*} body sent as JSON
+   * @param {string[]} [scopes]
+   * @param {{ [header: string]: string }} [headers]
+   * @param {string[]} [dependsOn] ids of the requests that must complete before this request
+   * @memberof Batch
+   */
+  public patch(
+    id: string,
+    resource: string,
+    body: any,
+    scopes?: string[],
+    headers?: { [header: string]: string },
+    dependsOn?: string[]
+  ) {
+    this.addRequest(id, 'PATCH', resource, body, scopes, headers, dependsOn);
+  }
+
+  /**
+   * sets new DELETE request and scopes
+   *
+   * @param {string} id
+   * @param {string} resource
+   * @param {string[]} [scopes]
+   * @param {{ [header: string]: string }} [headers]
+   * @param {string[]} [dependsOn] ids of the requests that must complete before this request
+   * @memberof Batch
+   */
+  public delete(
+    id: string,
+    resource: string,
+    scopes?: string[],
+    headers?: { [header: string]: string },
+    dependsOn?: string[]
+  ) {
+    this.addRequest(id, 'DELETE', resource, null, scopes, headers, dependsOn);
   }
 
   /**
    * Execute the next set of requests.
-   * This will execute up to 20 requests at a time
+   * This will execute up to 20 requests at a time.
+   * Throttled and unavailable requests are retried with the following set,
+   * failed requests are returned with their status and error.
    *
    * @returns {Promise<Map<string, BatchResponse>>}
    * @memberof Batch
@@ -148,56 +255,102 @@ export class Batch implements IBatch {
       return responses;
     }
 
-    // batch can support up to 20 requests
-    const nextBatch = this.requestsQueue.splice(0, 20);
+    const nextBatch: BatchRequest[] = [];
+    for (const request of this.getNextBatch()) {
+      // requests depending on a failed request are not sent
+      if ((request.dependsOn || []).some(id => this.failedIds.has(id))) {
+        this.failedIds.add(request.id);
+        responses.set(
+          request.id,
+          this.createResponse(request, 424, {}, { error: { code: 'FailedDependency', message: 'A dependency failed' } })
+        );
+      } else {
+        nextBatch.push(request);
+      }
+    }
 
-    const batchRequestContent = new BatchRequestContent();
+    if (!nextBatch.length) {
+      return responses;
+    }
 
-    for (const request of nextBatch.map(i => this.allRequests[i])) {
-      batchRequestContent.addRequest({
-        id: request.index.toString(),
-        request: new Request(Batch.baseUrl + request.resource, {
+    const batchRequestBody = {
+      requests: nextBatch.map(request => {
+        const content: any = {
+          headers: { ...request.headers },
+          id: request.index.toString(),
           method: request.method,
-          headers: request.headers
-        })
-      });
-    }
+          url: request.resource
+        };
+
+        if (request.body !== undefined && request.body !== null) {
+          content.body = request.body;
+          if (!getHeader(content.headers, 'Content-Type')) {
+            content.headers['Content-Type'] = 'application/json';
+          }
+        }
+
+        // dependencies executed in a previous batch are already complete
+        const dependsOn = (request.dependsOn || [])
+          .map(id => nextBatch.find(r => r.id === id))
+          .filter(r => r)
+          .map(r => r.index.toString());
+        if (dependsOn.length) {
+          content.dependsOn = dependsOn;
+        }
+
+        return content;
+      })
+    };
 
     const middlewareOptions: MiddlewareOptions[] = this.scopes.length ? prepScopes(...this.scopes) : [];
     const batchRequest = this.graph.api('$batch').middlewareOptions(middlewareOptions);
 
-    const batchRequestBody = await batchRequestContent.getContent();
     const batchResponse = await batchRequest.post(batchRequestBody);
 
-    for (const r of batchResponse.responses) {
-      const response = new BatchResponse();
+    for (const request of nextBatch) {
+      this.executedIds.add(request.id);
+    }
+
+    // throttled and unavailable requests are retried first
+    // so requests that failed because of them can be retried as well
+    const subResponses: any[] = [...batchResponse.responses].sort(
+      (a, b) =>
+        (retryStatuses.includes(b.status) ? 1 : 0) - (retryStatuses.includes(a.status) ? 1 : 0) ||
+        parseInt(a.id, 10) - parseInt(b.id, 10)
+    );
+    const retriedIds: Set<string> = new Set();
+
+    for (const r of subResponses) {
       const request = this.allRequests[r.id];
+      const headers = r.headers || {};
+      const retryCount = this.retryCounts.get(request.index) || 0;
 
-      response.id = request.id;
-      response.index = request.index;
-      response.headers = r.headers;
+      if (retryStatuses.includes(r.status) && retryCount < maxRetries) {
+        // add request back to queue and set retry wait time
+        this.retryCounts.set(request.index, retryCount + 1);
+        this.retryRequest(request, retriedIds);
 
-      if (r.status !== 200) {
-        if (r.status === 429) {
-          // this request was throttled
-          // add request back to queue and set retry wait time
-          this.requestsQueue.unshift(r.id);
-          this.retryAfter = Math.max(this.retryAfter, parseInt(r.headers['Retry-After'], 10) || 1);
-        }
+        const retryAfter = parseInt(getHeader(headers, 'Retry-After'), 10) || Math.pow(2, retryCount);
+        this.retryAfter = Math.max(this.retryAfter, retryAfter);
+        continue;
+      }
+
+      if (r.status === 424 && (request.dependsOn || []).some(id => retriedIds.has(id))) {
+        // the request didn't execute because a dependency is retried
+        this.retryRequest(request, retriedIds);
         continue;
-      } else if (r.headers['Content-Type'].includes('image/jpeg')) {
-        response.content = 'data:image/jpeg;base64,' + r.body;
-      } else if (r.headers['Content-Type'].includes('image/pjpeg')) {
-        response.content = 'data:image/pjpeg;base64,' + r.body;
-      } else if (r.headers['Content-Type'].includes('image/png')) {
-        response.content = 'data:image/png;base64,' + r.body;
-      } else {
-        response.content = r.body;
       }
 
+      const response = this.createResponse(request, r.status, headers, r.body);
+      if (!response.ok) {
+        this.failedIds.add(request.id);
+      }
       responses.set(request.id, response);
     }
 
+    // keep requests in the order they were added so dependencies are sent first
+    this.requestsQueue.sort((a, b) => a - b);
+
     return responses;
   }
 
@@ -220,4 +373,94 @@ export class Batch implements IBatch {
 
     return responses;
   }
+
+  private addRequest(
+    id: string,
+    method: string,
+    resource: string,
+    body: any,
+    scopes: string[],
+    headers: { [header: string]: string },
+    dependsOn: string[]
+  ) {
+    if (dependsOn) {
+      for (const dependency of dependsOn) {
+        if (!this.allRequests.some(r => r.id === dependency)) {
+          throw new Error(`Batch request '${id}' depends on unknown request '${dependency}'`);
+        }
+      }
+    }
+
+    const index = this.nextIndex++;
+    const request = new BatchRequest(index, id, resource, method);
+    request.headers = headers;
+    request.body = body;
+    request.dependsOn = dependsOn;
+    this.allRequests.push(request);
+    this.requestsQueue.push(index);
+    if (scopes) {
+      this.scopes = this.scopes.concat(scopes);
+    }
+  }
+
+  /**
+   * Takes up to 20 requests from the queue.
+   * Requests stay in the queue until the requests they depend on
+   * are executed before them or in the same batch.
+   */
+  private getNextBatch(): BatchRequest[] {
+    const nextBatch: BatchRequest[] = [];
+    const remaining: number[] = [];
+
+    for (const index of this.requestsQueue) {
+      const request = this.allRequests[index];
+      const canExecute =
+        nextBatch.length < 20 &&
+        (request.dependsOn || []).every(id => this.executedIds.has(id) || nextBatch.some(r => r.id === id));
+
+      if (canExecute) {
+        nextBatch.push(request);
+      } else {
+        remaining.push(index);
+      }
+    }
+
+    this.requestsQueue = remaining;
+    return nextBatch;
+  }
+
+  private retryRequest(request: BatchRequest, retriedIds: Set<string>) {
+    this.requestsQueue.push(request.index);
+    this.executedIds.delete(request.id);
+    retriedIds.add(request.id);
+  }
+
+  private createResponse(
+    request: BatchRequest,
+    status: number,
+    headers: { [header: string]: string },
+    body: any
+  ): BatchResponse {
+    const response = new BatchResponse();
+    response.id = request.id;
+    response.index = request.index;
+    response.status = status;
+    response.headers = headers as any;
+
+    const contentType = getHeader(headers, 'Content-Type') || '';
+
+    if (!response.ok) {
+      response.error = body && body.error ? body.error : body;
+    } else if (contentType.includes('image/jpeg')) {
+      response.content = 'data:image/jpeg;base64,' + body;
+    } else if (contentType.includes('image/pjpeg')) {
+      response.content = 'data:image/pjpeg;base64,' + body;
+    } else if (contentType.includes('image/png')) {
+      response.content = 'data:image/png;base64,' + body;
+    } else {
+      response.content = body;
+    }
+
+    return response;
+  }
 }
@@ -5,9 +5,12 @@
  * -------------------------------------------------------------------------------------------
  */
 
-import { openDB } from 'idb';
 import { Providers } from '../providers/Providers';
 import { ProviderState } from '../providers/IProvider';
+import { CacheStorageAdapter, IndexedDBStorageAdapter, InMemoryStorageAdapter } from './CacheStorage';
+import { EventDispatcher, EventHandler } from './EventDispatcher';
+import { OfflineService } from './Offline';
+import { cacheLookupDispatcher, fireSafely } from './RequestTelemetryMiddleware';
 
 /**
  * Holds the cache options for cache store
@@ -23,6 +26,31 @@ export interface CacheConfig {
    * @memberof CacheConfig
    */
   defaultInvalidationPeriod: number;
+  /**
+   * Default maximum number of entries kept in each store.
+   * Least recently used entries are evicted first. Null for no limit
+   *
+   * @type {number}
+   * @memberof CacheConfig
+   */
+  defaultMaxEntries?: number;
+  /**
+   * Default maximum size (in bytes) of the entries kept in each store.
+   * Least recently used entries are evicted first. Null for no limit
+   *
+   * @type {number}
+   * @memberof CacheConfig
+   */
+  defaultMaxSize?: number;
+  /**
+   * Minimum time (in ms) between two removals of expired entries from a store.
+   * Set to 0 to keep expired entries until they are overwritten.
+   * Expired entries are kept when offline mode is enabled, the stores are then only bounded by their limits
+   *
+   * @type {number}
+   * @memberof CacheConfig
+   */
+  cleanupInterval?: number;
   /**
    * Controls whether the cache is enabled globally
    *
@@ -112,6 +140,73 @@ export interface CacheOptions {
    * @memberof CacheOptions
    */
   isEnabled: boolean;
+  /**
+   * Maximum number of entries kept in each store of the schema.
+   * Overrides CacheConfig.defaultMaxEntries
+   *
+   * @type {number}
+   * @memberof CacheOptions
+   */
+  maxEntries?: number;
+  /**
+   * Maximum size (in bytes) of the entries kept in each store of the schema.
+   * Overrides CacheConfig.defaultMaxSize
+   *
+   * @type {number}
+   * @memberof CacheOptions
+   */
+  maxSize?: number;
+}
+
+/**
+ * Usage statistics for a cache store
+ *
+ * @export
+ * @interface CacheStoreStats
+ */
+export interface CacheStoreStats {
+  /**
+   * name of the schema the store belongs to
+   *
+   * @type {string}
+   * @memberof CacheStoreStats
+   */
+  schema: string;
+  /**
+   * name of the store
+   *
+   * @type {string}
+   * @memberof CacheStoreStats
+   */
+  store: string;
+  /**
+   * number of entries in the store
+   *
+   * @type {number}
+   * @memberof CacheStoreStats
+   */
+  entries: number;
+  /**
+   * approximate size (in bytes) of all entries in the store
+   *
+   * @type {number}
+   * @memberof CacheStoreStats
+   */
+  bytes: number;
+  /**
+   * number of lookups that returned a value that has not expired
+   *
+   * @type {number}
+   * @memberof CacheStoreStats
+   */
+  hits: number;
+  /**
+   * number of lookups that returned no value or an expired value
+   *
+   * @type {number}
+   * @memberof CacheStoreStats
+   */
+  misses: number;
 }
 
 /**
@@ -139,7 +234,7 @@ export class CacheService {
       this.init();
     }
 
-    if (!this.cacheStore.has(storeName)) {
+    if (!this.cacheStore.has(key)) {
       this.cacheStore.set(key, new CacheStore<T>(schema, storeName));
     }
     return this.cacheStore.get(key) as CacheStore<T>;
@@ -149,14 +244,184 @@ export class CacheService {
    * Clears all the stores within the cache
    */
   public static clearCaches() {
-    this.cacheStore.forEach(x => indexedDB.deleteDatabase(x.getDBName()));
+    this.clearCacheById(this.cacheId);
+  }
+
+  /**
+   * Clears all the stores that belong to a specific account
+   *
+   * @static
+   * @param {string} cacheId id of the account, as returned by CacheService.cacheId
+   * @memberof CacheService
+   */
+  public static clearCacheById(cacheId: string) {
+    this.cacheStore.forEach(x => x.deleteDatabase(cacheId));
+    this._cacheInvalidatedDispatcher.fire({ cacheId });
+  }
+
+  /**
+   * Fires event when the caches of an account are cleared
+   *
+   * @static
+   * @param {EventHandler<CacheInvalidatedEvent>} event
+   * @memberof CacheService
+   */
+  public static onCacheInvalidated(event: EventHandler<CacheInvalidatedEvent>) {
+    this._cacheInvalidatedDispatcher.add(event);
+  }
+
+  /**
+   * Remove event handler
+   *
+   * @static
+   * @param {EventHandler<CacheInvalidatedEvent>} event
+   * @memberof CacheService
+   */
+  public static removeCacheInvalidatedListener(event: EventHandler<CacheInvalidatedEvent>) {
+    this._cacheInvalidatedDispatcher.remove(event);
+  }
+
+  /**
+   * Id of the signed in account used to partition the caches,
+   * null when the provider doesn't expose accounts
+   *
+   * @readonly
+   * @static
+   * @type {string}
+   * @memberof CacheService
+   */
+  public static get cacheId(): string {
+    const provider = Providers.globalProvider;
+    const account = provider && provider.getActiveAccount ? provider.getActiveAccount() : null;
+    return account ? account.id : null;
+  }
+
+  /**
+   * Returns usage statistics for every store used in this session,
+   * keyed by schema and store name
+   *
+   * @static
+   * @returns {Promise<Map<string, CacheStoreStats>>}
+   * @memberof CacheService
+   */
+  public static async getStats(): Promise<Map<string, CacheStoreStats>> {
+    const stats: Map<string, CacheStoreStats> = new Map();
+    for (const [key, store] of this.cacheStore) {
+      stats.set(key, await store.getStats());
+    }
+    return stats;
+  }
+
+  /**
+   * Number of expired values served while offline since the page loaded.
+   * Components compare it before and after loading their state to know if they show stale data
+   *
+   * @readonly
+   * @static
+   * @type {number}
+   * @memberof CacheService
+   */
+  public static get staleValueCount(): number {
+    return this._staleValueCount;
+  }
+
+  /**
+   * Checks whether a cached value can be used instead of calling the Graph.
+   * Expired values are only used while offline, when offline mode is enabled
+   *
+   * @static
+   * @param {CacheItem} item the cached value
+   * @param {number} invalidationPeriod time (in ms) after which the value expires
+   * @returns {boolean}
+   * @memberof CacheService
+   */
+  public static isValueUsable(item: CacheItem, invalidationPeriod: number): boolean {
+    if (!item) {
+      return false;
+    }
+
+    if (invalidationPeriod > Date.now() - item.timeCached) {
+      return true;
+    }
+
+    if (OfflineService.isEnabled && !OfflineService.isOnline) {
+      this._staleValueCount++;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Returns the cache options that apply to a schema
+   *
+   * @static
+   * @param {CacheSchema} schema
+   * @returns {CacheOptions}
+   * @memberof CacheService
+   */
+  public static getCacheOptions(schema: CacheSchema): CacheOptions {
+    return this.cacheConfig[schema.config || schema.name];
+  }
+
+  /**
+   * Sets the storage backend used by the cache stores.
+   * When a schema name is provided, the adapter is only used for that schema,
+   * otherwise it replaces the default adapter for all schemas.
+   * Pass null to remove a previously registered adapter.
+   *
+   * @static
+   * @param {CacheStorageAdapter} adapter
+   * @param {string} [schemaName]
+   * @memberof CacheService
+   */
+  public static setStorageAdapter(adapter: CacheStorageAdapter, schemaName?: string) {
+    if (schemaName) {
+      if (adapter) {
+        this.schemaStorageAdapters.set(schemaName, adapter);
+      } else {
+        this.schemaStorageAdapters.delete(schemaName);
+      }
+    } else {
+      this.globalStorageAdapter = adapter;
+    }
+  }
+
+  /**
+   * Gets the storage backend used for a schema.
+   * Falls back to IndexedDB when available, or to memory otherwise.
+   *
+   * @static
+   * @param {string} [schemaName]
+   * @returns {CacheStorageAdapter}
+   * @memberof CacheService
+   */
+  public static getStorageAdapter(schemaName?: string): CacheStorageAdapter {
+    const adapter = (schemaName && this.schemaStorageAdapters.get(schemaName)) || this.globalStorageAdapter;
+    if (adapter && adapter.isAvailable) {
+      return adapter;
+    }
+
+    if (!this.defaultStorageAdapter) {
+      const indexedDBAdapter = new IndexedDBStorageAdapter();
+      this.defaultStorageAdapter = indexedDBAdapter.isAvailable ? indexedDBAdapter : new InMemoryStorageAdapter();
+    }
+    return this.defaultStorageAdapter;
   }
 
   private static cacheStore: Map<string, CacheStore<CacheItem>> = new Map();
+  private static _cacheInvalidatedDispatcher: EventDispatcher<CacheInvalidatedEvent> = new EventDispatcher<CacheInvalidatedEvent>();
   private static isInitialized: boolean = false;
+  private static _staleValueCount: number = 0;
+  private static globalStorageAdapter: CacheStorageAdapter;
+  private static defaultStorageAdapter: CacheStorageAdapter;
+  private static schemaStorageAdapters: Map<string, CacheStorageAdapter> = new Map();
 
   private static cacheConfig: CacheConfig = {
     defaultInvalidationPeriod: 3600000,
+    defaultMaxEntries: null,
+    defaultMaxSize: null,
+    cleanupInterval: 300000,
     groups: {
       invalidationPeriod: null,
       isEnabled: true
@@ -168,7 +433,8 @@ export class CacheService {
     },
     photos: {
       invalidationPeriod: null,
-      isEnabled: true
+      isEnabled: true,
+      maxSize: 5242880
     },
     presence: {
       invalidationPeriod: 300000,
@@ -205,7 +471,7 @@ export class CacheService {
   }
 
   /**
-   * Checks for current sign in state and see if it has changed from signed-in to signed out
+   * Checks for current sign in state and see if it has changed from signed-in to signed out (or failed)
    *
    *
    * @private
@@ -218,16 +484,49 @@ export class CacheService {
       previousState = Providers.globalProvider.state;
     }
 
+    // the account is usually gone by the time the provider is signed out,
+    // so keep track of the last one to purge its caches
+    let previousCacheId = this.cacheId;
+
     Providers.onProviderUpdated(() => {
-      if (previousState === ProviderState.SignedIn && Providers.globalProvider.state === ProviderState.SignedOut) {
-        this.clearCaches();
+      const state = Providers.globalProvider ? Providers.globalProvider.state : ProviderState.SignedOut;
+      if (
+        previousState === ProviderState.SignedIn &&
+        (state === ProviderState.SignedOut || state === ProviderState.Error)
+      ) {
+        this.clearCacheById(previousCacheId);
+      }
+      previousState = state;
+      previousCacheId = this.cacheId || previousCacheId;
+    });
+    Providers.onActiveAccountChanged(() => {
+      previousCacheId = this.cacheId;
+    });
+    Providers.onAccountRemoved(e => {
+      if (e.account && e.account.id) {
+        this.clearCacheById(e.account.id);
       }
-      previousState = Providers.globalProvider.state;
     });
     this.isInitialized = true;
   }
 }
 
+/**
+ * Event fired when the caches of an account are cleared
+ *
+ * @export
+ * @interface CacheInvalidatedEvent
+ */
+export interface CacheInvalidatedEvent {
+  /**
+   * id of the account whose caches were cleared
+   *
+   * @type {string}
+   * @memberof CacheInvalidatedEvent
+   */
+  cacheId: string;
+}
+
 /**
  * Represents organization for a cache
  *
@@ -249,6 +548,14 @@ export interface CacheSchema {
    * @memberof CacheSchema
    */
   name: string;
+  /**
+   * name of the CacheConfig entry holding the options for this schema.
+   * Defaults to the name of the schema
+   *
+   * @type {string}
+   * @memberof CacheSchema
+   */
+  config?: string;
   /**
    * list of stores in the cache
    *
@@ -284,6 +591,13 @@ export interface CacheItem {
 export class CacheStore<T extends CacheItem> {
   private schema: CacheSchema;
   private store: string;
+  private hits: number = 0;
+  private misses: number = 0;
+  private lastCleanup: number = 0;
+
+  // entries ordered from least to most recently used
+  private _entries: Promise<Map<string, CacheEntryInfo>>;
+  private _entriesDBName: string;
 
   public constructor(schema: CacheSchema, store: string) {
     if (!(store in schema.stores)) {
@@ -302,11 +616,26 @@ export class CacheStore<T extends CacheItem> {
    * @memberof Cache
    */
   public async getValue(key: string): Promise<T> {
-    if (!window.indexedDB) {
-      return null;
-    }
     try {
-      return (await this.getDb()).get(this.store, key);
+      const value = await this.storage.getValue<T>(this.schema, this.getDBName(), this.store, key);
+      const hit = !!value && !this.isExpired(value.timeCached);
+      if (hit) {
+        this.hits++;
+      } else {
+        this.misses++;
+      }
+      fireSafely(cacheLookupDispatcher, { hit, key, schema: this.schema.name, store: this.store });
+
+      if (value) {
+        const entries = await this.getEntries();
+        const entry = entries.get(key);
+        if (entry) {
+          // move the entry to the end of the map to mark it as most recently used
+          entries.delete(key);
+          entries.set(key, entry);
+        }
+      }
+      return value;
     } catch (e) {
       return null;
     }
@@ -314,6 +643,7 @@ export class CacheStore<T extends CacheItem> {
 
   /**
    * inserts value into cache for the given key
+   * and evicts the least recently used values if the store is over its limits
    *
    * @param {string} key
    * @param {T} item
@@ -321,11 +651,46 @@ export class CacheStore<T extends CacheItem> {
    * @memberof Cache
    */
   public async putValue(key: string, item: T) {
-    if (!window.indexedDB) {
+    try {
+      const value = { ...item, timeCached: Date.now() };
+      await this.storage.putValue(this.schema, this.getDBName(), this.store, key, value);
+
+      const entries = await this.getEntries();
+      entries.delete(key);
+      entries.set(key, { size: getItemSize(value), timeCached: value.timeCached });
+      await this.evictLeastRecentlyUsed(entries, key);
+    } catch (e) {
       return;
     }
+
+    const cleanupInterval = CacheService.config.cleanupInterval;
+    if (cleanupInterval && Date.now() - this.lastCleanup > cleanupInterval) {
+      // runs in the background, callers don't need to wait for it
+      this.removeExpiredValues();
+    }
+  }
+
+  /**
+   * Removes all values that are older than the invalidation period of the store.
+   * Does nothing when offline mode is enabled, as expired values are still used while offline
+   *
+   * @returns
+   * @memberof Cache
+   */
+  public async removeExpiredValues() {
+    this.lastCleanup = Date.now();
+    if (OfflineService.isEnabled) {
+      return;
+    }
+
     try {
-      await (await this.getDb()).put(this.store, { ...item, timeCached: Date.now() }, key);
+      const entries = await this.getEntries();
+      for (const [key, entry] of entries) {
+        if (this.isExpired(entry.timeCached)) {
+          entries.delete(key);
+          await this.storage.deleteValue(this.schema, this.getDBName(), this.store, key);
+        }
+      }
     } catch (e) {
       return;
     }
@@ -338,32 +703,161 @@ export class CacheStore<T extends CacheItem> {
    * @memberof Cache
    */
   public async clearStore() {
-    if (!window.indexedDB) {
+    this._entries = null;
+    try {
+      await this.storage.clearStore(this.schema, this.getDBName(), this.store);
+    } catch (e) {
       return;
     }
+  }
+
+  /**
+   * Deletes the parent DB that the cache store belongs to
+   *
+   * @param {string} [cacheId] id of the account the DB belongs to, defaults to the current account
+   * @returns
+   * @memberof Cache
+   */
+  public async deleteDatabase(cacheId: string = CacheService.cacheId) {
+    const dbName = this.getDBName(cacheId);
+    if (dbName === this._entriesDBName) {
+      this._entries = null;
+    }
     try {
-      (await this.getDb()).clear(this.store);
+      await this.storage.deleteDatabase(dbName);
     } catch (e) {
       return;
     }
   }
 
   /**
-   * Returns the name of the parent DB that the cache store belongs to
+   * Returns the number of entries, their size and the lookup counts of the store
+   *
+   * @returns {Promise<CacheStoreStats>}
+   * @memberof Cache
    */
-  public getDBName() {
-    return `mgt-${this.schema.name}`;
+  public async getStats(): Promise<CacheStoreStats> {
+    let entries: Map<string, CacheEntryInfo> = new Map();
+    try {
+      entries = await this.getEntries();
+    } catch (e) {
+      // report the lookup counts even if the storage can't be read
+    }
+
+    let bytes = 0;
+    for (const entry of entries.values()) {
+      bytes += entry.size;
+    }
+
+    return {
+      schema: this.schema.name,
+      store: this.store,
+      entries: entries.size,
+      bytes,
+      hits: this.hits,
+      misses: this.misses
+    };
   }
 
-  private getDb() {
-    return openDB(this.getDBName(), this.schema.version, {
-      upgrade: (db, oldVersion, newVersion, transaction) => {
-        for (const storeName in this.schema.stores) {
-          if (this.schema.stores.hasOwnProperty(storeName)) {
-            db.objectStoreNames.contains(storeName) || db.createObjectStore(storeName);
-          }
-        }
+  /**
+   * Returns the name of the parent DB that the cache store belongs to.
+   * Each account gets its own DB so cached data is never shared between accounts
+   *
+   * @param {string} [cacheId] id of the account the DB belongs to, defaults to the current account
+   */
+  public getDBName(cacheId: string = CacheService.cacheId) {
+    return cacheId ? `mgt-${this.schema.name}-${cacheId}` : `mgt-${this.schema.name}`;
+  }
+
+  private get storage(): CacheStorageAdapter {
+    return CacheService.getStorageAdapter(this.schema.name);
+  }
+
+  private get options(): CacheOptions {
+    return CacheService.getCacheOptions(this.schema) || ({} as CacheOptions);
+  }
+
+  private isExpired(timeCached: number) {
+    const invalidationPeriod = this.options.invalidationPeriod || CacheService.config.defaultInvalidationPeriod;
+    return !timeCached || Date.now() - timeCached > invalidationPeriod;
+  }
+
+  private getEntries(): Promise<Map<string, CacheEntryInfo>> {
+    const dbName = this.getDBName();
+    if (!this._entries || this._entriesDBName !== dbName) {
+      this._entriesDBName = dbName;
+      this._entries = this.loadEntries(dbName).catch(e => {
+        this._entries = null;
+        throw e;
+      });
+    }
+    return this._entries;
+  }
+
+  private async loadEntries(dbName: string): Promise<Map<string, CacheEntryInfo>> {
+    const values = await this.storage.getEntries<T>(this.schema, dbName, this.store);
+
+    // use the time the values were cached as the initial usage order
+    const infos: [string, CacheEntryInfo][] = [];
+    for (const [key, value] of values) {
+      infos.push([key, { size: getItemSize(value), timeCached: value && value.timeCached }]);
+    }
+    infos.sort((a, b) => (a[1].timeCached || 0) - (b[1].timeCached || 0));
+
+    return new Map(infos);
+  }
+
+  private async evictLeastRecentlyUsed(entries: Map<string, CacheEntryInfo>, keep: string) {
+    const maxEntries = this.options.maxEntries || CacheService.config.defaultMaxEntries;
+    const maxSize = this.options.maxSize || CacheService.config.defaultMaxSize;
+    if (!maxEntries && !maxSize) {
+      return;
+    }
+
+    let size = 0;
+    for (const entry of entries.values()) {
+      size += entry.size;
+    }
+
+    for (const [key, entry] of entries) {
+      if ((!maxEntries || entries.size <= maxEntries) && (!maxSize || size <= maxSize)) {
+        break;
       }
-    });
+      if (key === keep) {
+        continue;
+      }
+
+      entries.delete(key);
+      size -= entry.size;
+      await this.storage.deleteValue(this.schema, this.getDBName(), this.store, key);
+    }
+  }
+}
+
+/**
+ * Size and age of a cached value, used to enforce the store limits
+ */
+interface CacheEntryInfo {
+  /**
+   * approximate size of the value in bytes
+   */
+  size: number;
+  /**
+   * date and time that the value was stored in cache
+   */
+  timeCached: number;
+}
+
+/**
+ * Returns the approximate size of a cached value in bytes
+ *
+ * @param {*} item
+ * @returns {number}
+ */
+function getItemSize(item: any): number {
+  try {
+    return JSON.stringify(item).length;
+  } catch (e) {
+    return 0;
   }
 }
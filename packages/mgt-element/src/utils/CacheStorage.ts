@@ -0,0 +1,488 @@
+/**
+ * -------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation.  All Rights Reserved.  Licensed under the MIT License.
+ * See License in the project root for license information.
+ * -------------------------------------------------------------------------------------------
+ */
+
+import { openDB } from 'idb';
+import { CacheSchema } from './Cache';
+
+/**
+ * Storage backend used by the CacheService to persist cache stores
+ *
+ * @export
+ * @interface CacheStorageAdapter
+ */
+export interface CacheStorageAdapter {
+  /**
+   * Whether the storage backend can be used in the current environment
+   *
+   * @type {boolean}
+   * @memberof CacheStorageAdapter
+   */
+  readonly isAvailable: boolean;
+
+  /**
+   * gets value from the storage for the given key
+   *
+   * @template T
+   * @param {CacheSchema} schema
+   * @param {string} dbName
+   * @param {string} store
+   * @param {string} key
+   * @returns {Promise<T>}
+   * @memberof CacheStorageAdapter
+   */
+  getValue<T>(schema: CacheSchema, dbName: string, store: string, key: string): Promise<T>;
+
+  /**
+   * inserts value into the storage for the given key
+   *
+   * @template T
+   * @param {CacheSchema} schema
+   * @param {string} dbName
+   * @param {string} store
+   * @param {string} key
+   * @param {T} item
+   * @returns {Promise<void>}
+   * @memberof CacheStorageAdapter
+   */
+  putValue<T>(schema: CacheSchema, dbName: string, store: string, key: string, item: T): Promise<void>;
+
+  /**
+   * removes the value for the given key
+   *
+   * @param {CacheSchema} schema
+   * @param {string} dbName
+   * @param {string} store
+   * @param {string} key
+   * @returns {Promise<void>}
+   * @memberof CacheStorageAdapter
+   */
+  deleteValue(schema: CacheSchema, dbName: string, store: string, key: string): Promise<void>;
+
+  /**
+   * gets all keys and values of a store
+   *
+   * @template T
+   * @param {CacheSchema} schema
+   * @param {string} dbName
+   * @param {string} store
+   * @returns {Promise<Map<string, T>>}
+   * @memberof CacheStorageAdapter
+   */
+  getEntries<T>(schema: CacheSchema, dbName: string, store: string): Promise<Map<string, T>>;
+
+  /**
+   * removes all values from a store
+   *
+   * @param {CacheSchema} schema
+   * @param {string} dbName
+   * @param {string} store
+   * @returns {Promise<void>}
+   * @memberof CacheStorageAdapter
+   */
+  clearStore(schema: CacheSchema, dbName: string, store: string): Promise<void>;
+
+  /**
+   * removes a database and all of its stores
+   *
+   * @param {string} dbName
+   * @returns {Promise<void>}
+   * @memberof CacheStorageAdapter
+   */
+  deleteDatabase(dbName: string): Promise<void>;
+}
+
+/**
+ * Stores cache values in IndexedDB, one database per cache schema
+ *
+ * @export
+ * @class IndexedDBStorageAdapter
+ * @implements {CacheStorageAdapter}
+ */
+export class IndexedDBStorageAdapter implements CacheStorageAdapter {
+  /**
+   * Whether IndexedDB is available in the current environment
+   *
+   * @readonly
+   * @type {boolean}
+   * @memberof IndexedDBStorageAdapter
+   */
+  public get isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined' && !!indexedDB;
+  }
+
+  /**
+   * gets value from IndexedDB for the given key
+   *
+   * @template T
+   * @param {CacheSchema} schema
+   * @param {string} dbName
+   * @param {string} store
+   * @param {string} key
+   * @returns {Promise<T>}
+   * @memberof IndexedDBStorageAdapter
+   */
+  public async getValue<T>(schema: CacheSchema, dbName: string, store: string, key: string): Promise<T> {
+    return (await this.getDb(schema, dbName)).get(store, key);
+  }
+
+  /**
+   * inserts value into IndexedDB for the given key
+   *
+   * @template T
+   * @param {CacheSchema} schema
+   * @param {string} dbName
+   * @param {string} store
+   * @param {string} key
+   * @param {T} item
+   * @returns {Promise<void>}
+   * @memberof IndexedDBStorageAdapter
+   */
+  public async putValue<T>(schema: CacheSchema, dbName: string, store: string, key: string, item: T): Promise<void> {
+    await (await this.getDb(schema, dbName)).put(store, item, key);
+  }
+
+  /**
+   * removes the value from IndexedDB for the given key
+   *
+   * @param {CacheSchema} schema
+   * @param {string} dbName
+   * @param {string} store
+   * @param {string} key
+   * @returns {Promise<void>}
+   * @memberof IndexedDBStorageAdapter
+   */
+  public async deleteValue(schema: CacheSchema, dbName: string, store: string, key: string): Promise<void> {
+    await (await this.getDb(schema, dbName)).delete(store, key);
+  }
+
+  /**
+   * gets all keys and values of an IndexedDB object store
+   *
+   * @template T
+   * @param {CacheSchema} schema
+   * @param {string} dbName
+   * @param {string} store
+   * @returns {Promise<Map<string, T>>}
+   * @memberof IndexedDBStorageAdapter
+   */
+  public async getEntries<T>(schema: CacheSchema, dbName: string, store: string): Promise<Map<string, T>> {
+    const tx = (await this.getDb(schema, dbName)).transaction(store);
+    const [keys, values] = await Promise.all([tx.store.getAllKeys(), tx.store.getAll()]);
+    const entries = new Map<string, T>();
+    for (let i = 0; i < keys.length; i++) {
+      entries.set(keys[i] as string, values[i]);
+    }
+    return entries;
+  }
+
+  /**
+   * removes all values from an IndexedDB object store
+   *
+   * @param {CacheSchema} schema
+   * @param {string} dbName
+   * @param {string} store
+   * @returns {Promise<void>}
+   * @memberof IndexedDBStorageAdapter
+   */
+  public async clearStore(schema: CacheSchema, dbName: string, store: string): Promise<void> {
+    await (await this.getDb(schema, dbName)).clear(store);
+  }
+
+  /**
+   * deletes the IndexedDB database
+   *
+   * @param {string} dbName
+   * @returns {Promise<void>}
+   * @memberof IndexedDBStorageAdapter
+   */
+  public async deleteDatabase(dbName: string): Promise<void> {
+    indexedDB.deleteDatabase(dbName);
+  }
+
+  private getDb(schema: CacheSchema, dbName: string) {
+    return openDB(dbName, schema.version, {
+      upgrade: (db, oldVersion, newVersion, transaction) => {
+        for (const storeName in schema.stores) {
+          if (schema.stores.hasOwnProperty(storeName) && !db.objectStoreNames.contains(storeName)) {
+            db.createObjectStore(storeName);
+          }
+        }
+      }
+    });
+  }
+}
+
+/**
+ * Stores cache values in memory for the lifetime of the page.
+ * Used when no persistent storage is available (Node, SSR, tests)
+ *
+ * @export
+ * @class InMemoryStorageAdapter
+ * @implements {CacheStorageAdapter}
+ */
+// tslint:disable-next-line: max-classes-per-file
+export class InMemoryStorageAdapter implements CacheStorageAdapter {
+  private databases: Map<string, Map<string, Map<string, string>>> = new Map();
+
+  /**
+   * In memory storage is always available
+   *
+   * @readonly
+   * @type {boolean}
+   * @memberof InMemoryStorageAdapter
+   */
+  public get isAvailable(): boolean {
+    return true;
+  }
+
+  /**
+   * gets value from memory for the given key
+   *
+   * @template T
+   * @param {CacheSchema} schema
+   * @param {string} dbName
+   * @param {string} store
+   * @param {string} key
+   * @returns {Promise<T>}
+   * @memberof InMemoryStorageAdapter
+   */
+  public async getValue<T>(schema: CacheSchema, dbName: string, store: string, key: string): Promise<T> {
+    const value = this.getStore(dbName, store).get(key);
+    return value === undefined ? undefined : JSON.parse(value);
+  }
+
+  /**
+   * inserts value into memory for the given key
+   *
+   * @template T
+   * @param {CacheSchema} schema
+   * @param {string} dbName
+   * @param {string} store
+   * @param {string} key
+   * @param {T} item
+   * @returns {Promise<void>}
+   * @memberof InMemoryStorageAdapter
+   */
+  public async putValue<T>(schema: CacheSchema, dbName: string, store: string, key: string, item: T): Promise<void> {
+    // values are serialized so callers can't mutate what is stored
+    this.getStore(dbName, store).set(key, JSON.stringify(item));
+  }
+
+  /**
+   * removes the value from memory for the given key
+   *
+   * @param {CacheSchema} schema
+   * @param {string} dbName
+   * @param {string} store
+   * @param {string} key
+   * @returns {Promise<void>}
+   * @memberof InMemoryStorageAdapter
+   */
+  public async deleteValue(schema: CacheSchema, dbName: string, store: string, key: string): Promise<void> {
+    this.getStore(dbName, store).delete(key);
+  }
+
+  /**
+   * gets all keys and values of a store
+   *
+   * @template T
+   * @param {CacheSchema} schema
+   * @param {string} dbName
+   * @param {string} store
+   * @returns {Promise<Map<string, T>>}
+   * @memberof InMemoryStorageAdapter
+   */
+  public async getEntries<T>(schema: CacheSchema, dbName: string, store: string): Promise<Map<string, T>> {
+    const entries = new Map<string, T>();
+    for (const [key, value] of this.getStore(dbName, store)) {
+      entries.set(key, JSON.parse(value));
+    }
+    return entries;
+  }
+
+  /**
+   * removes all values from a store
+   *
+   * @param {CacheSchema} schema
+   * @param {string} dbName
+   * @param {string} store
+   * @returns {Promise<void>}
+   * @memberof InMemoryStorageAdapter
+   */
+  public async clearStore(schema: CacheSchema, dbName: string, store: string): Promise<void> {
+    this.getStore(dbName, store).clear();
+  }
+
+  /**
+   * removes a database and all of its stores
+   *
+   * @param {string} dbName
+   * @returns {Promise<void>}
+   * @memberof InMemoryStorageAdapter
+   */
+  public async deleteDatabase(dbName: string): Promise<void> {
+    this.databases.delete(dbName);
+  }
+
+  private getStore(dbName: string, store: string) {
+    if (!this.databases.has(dbName)) {
+      this.databases.set(dbName, new Map());
+    }
+
+    const db = this.databases.get(dbName);
+    if (!db.has(store)) {
+      db.set(store, new Map());
+    }
+
+    return db.get(store);
+  }
+}
+
+/**
+ * Stores cache values in a Web Storage object (localStorage or sessionStorage)
+ *
+ * @export
+ * @class WebStorageAdapter
+ * @implements {CacheStorageAdapter}
+ */
+// tslint:disable-next-line: max-classes-per-file
+export class WebStorageAdapter implements CacheStorageAdapter {
+  private _storage: Storage;
+
+  constructor(storage: Storage) {
+    this._storage = storage;
+  }
+
+  /**
+   * Whether the storage object exists and can be written to.
+   * Access to web storage throws in some sandboxed and privacy modes
+   *
+   * @readonly
+   * @type {boolean}
+   * @memberof WebStorageAdapter
+   */
+  public get isAvailable(): boolean {
+    if (!this._storage) {
+      return false;
+    }
+
+    try {
+      const testKey = 'mgt-storage-test';
+      this._storage.setItem(testKey, testKey);
+      this._storage.removeItem(testKey);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  /**
+   * gets value from web storage for the given key
+   *
+   * @template T
+   * @param {CacheSchema} schema
+   * @param {string} dbName
+   * @param {string} store
+   * @param {string} key
+   * @returns {Promise<T>}
+   * @memberof WebStorageAdapter
+   */
+  public async getValue<T>(schema: CacheSchema, dbName: string, store: string, key: string): Promise<T> {
+    const value = this._storage.getItem(this.getItemKey(dbName, store, key));
+    return value === null ? undefined : JSON.parse(value);
+  }
+
+  /**
+   * inserts value into web storage for the given key
+   *
+   * @template T
+   * @param {CacheSchema} schema
+   * @param {string} dbName
+   * @param {string} store
+   * @param {string} key
+   * @param {T} item
+   * @returns {Promise<void>}
+   * @memberof WebStorageAdapter
+   */
+  public async putValue<T>(schema: CacheSchema, dbName: string, store: string, key: string, item: T): Promise<void> {
+    this._storage.setItem(this.getItemKey(dbName, store, key), JSON.stringify(item));
+  }
+
+  /**
+   * removes the value from web storage for the given key
+   *
+   * @param {CacheSchema} schema
+   * @param {string} dbName
+   * @param {string} store
+   * @param {string} key
+   * @returns {Promise<void>}
+   * @memberof WebStorageAdapter
+   */
+  public async deleteValue(schema: CacheSchema, dbName: string, store: string, key: string): Promise<void> {
+    this._storage.removeItem(this.getItemKey(dbName, store, key));
+  }
+
+  /**
+   * gets all keys and values of a store
+   *
+   * @template T
+   * @param {CacheSchema} schema
+   * @param {string} dbName
+   * @param {string} store
+   * @returns {Promise<Map<string, T>>}
+   * @memberof WebStorageAdapter
+   */
+  public async getEntries<T>(schema: CacheSchema, dbName: string, store: string): Promise<Map<string, T>> {
+    const prefix = this.getItemKey(dbName, store, '');
+    const entries = new Map<string, T>();
+    for (let i = 0; i < this._storage.length; i++) {
+      const key = this._storage.key(i);
+      if (key && key.startsWith(prefix)) {
+        entries.set(key.substring(prefix.length), JSON.parse(this._storage.getItem(key)));
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * removes all values from a store
+   *
+   * @param {CacheSchema} schema
+   * @param {string} dbName
+   * @param {string} store
+   * @returns {Promise<void>}
+   * @memberof WebStorageAdapter
+   */
+  public async clearStore(schema: CacheSchema, dbName: string, store: string): Promise<void> {
+    this.removeItemsWithPrefix(`${dbName}/${store}/`);
+  }
+
+  /**
+   * removes a database and all of its stores
+   *
+   * @param {string} dbName
+   * @returns {Promise<void>}
+   * @memberof WebStorageAdapter
+   */
+  public async deleteDatabase(dbName: string): Promise<void> {
+    this.removeItemsWithPrefix(`${dbName}/`);
+  }
+
+  private getItemKey(dbName: string, store: string, key: string) {
+    return `${dbName}/${store}/${key}`;
+  }
+
+  private removeItemsWithPrefix(prefix: string) {
+    // iterate backwards as removing an item shifts the indexes
+    for (let i = this._storage.length - 1; i >= 0; i--) {
+      const key = this._storage.key(i);
+      if (key && key.startsWith(prefix)) {
+        this._storage.removeItem(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * -------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation.  All Rights Reserved.  Licensed under the MIT License.
+ * See License in the project root for license information.
+ * -------------------------------------------------------------------------------------------
+ */
+
+import { AuthenticationHandlerOptions, Context, Middleware } from '@microsoft/microsoft-graph-client';
+import { createAbortError, getHeaders } from '../utils';
+
+/**
+ * Request header used to opt a GET request out of de-duplication.
+ * The header is removed before the request is sent.
+ *
+ * Ex: graph.api('me').header(SKIP_DEDUPLICATION_HEADER, 'true').get()
+ */
+export const SKIP_DEDUPLICATION_HEADER = 'x-mgt-skip-deduplication';
+
+/**
+ * A request shared between identical GET requests
+ */
+interface InFlightRequest {
+  /**
+   * response of the shared request.
+   * The response is never read directly, every caller gets a clone.
+   */
+  response: Promise<Response>;
+
+  /**
+   * aborts the shared request
+   */
+  abortController: AbortController;
+
+  /**
+   * number of callers that can still use the response
+   */
+  callers: number;
+}
+
+/**
+ * Implements Middleware for the Graph sdk to share a single
+ * network call between identical GET requests that are in flight at the same time
+ *
+ * @class DeduplicationMiddleware
+ * @implements {Middleware}
+ */
+export class DeduplicationMiddleware implements Middleware {
+  /**
+   * @private
+   * A member to hold next middleware in the middleware chain
+   */
+  private _nextMiddleware: Middleware;
+
+  /**
+   * Requests currently in flight, by request key.
+   */
+  private _inFlightRequests: Map<string, InFlightRequest> = new Map();
+
+  // tslint:disable-next-line: completed-docs
+  public async execute(context: Context): Promise<void> {
+    const key = this.getRequestKey(context);
+    if (!key) {
+      return await this._nextMiddleware.execute(context);
+    }
+
+    const signal = context.options.signal;
+    if (signal && signal.aborted) {
+      throw createAbortError();
+    }
+
+    let inFlightRequest = this._inFlightRequests.get(key);
+    if (!inFlightRequest) {
+      // the shared request is only aborted once every caller aborted
+      const abortController = new AbortController();
+      context.options.signal = abortController.signal;
+
+      inFlightRequest = { abortController, callers: 0, response: this.executeNext(context) };
+      this._inFlightRequests.set(key, inFlightRequest);
+
+      const removeRequest = () => this._inFlightRequests.delete(key);
+      inFlightRequest.response.then(removeRequest, removeRequest);
+    }
+
+    inFlightRequest.callers++;
+    context.response = (await this.waitForResponse(inFlightRequest, signal)).clone();
+  }
+
+  /**
+   * Handles setting of next middleware
+   *
+   * @param {Middleware} next
+   * @memberof DeduplicationMiddleware
+   */
+  public setNext(next: Middleware): void {
+    this._nextMiddleware = next;
+  }
+
+  private async executeNext(context: Context): Promise<Response> {
+    await this._nextMiddleware.execute(context);
+    return context.response;
+  }
+
+  private waitForResponse(inFlightRequest: InFlightRequest, signal: AbortSignal): Promise<Response> {
+    if (!signal) {
+      return inFlightRequest.response;
+    }
+
+    return new Promise<Response>((resolve, reject) => {
+      const handleAbort = () => {
+        if (--inFlightRequest.callers === 0) {
+          inFlightRequest.abortController.abort();
+        }
+        reject(createAbortError());
+      };
+
+      signal.addEventListener('abort', handleAbort);
+      inFlightRequest.response.then(
+        response => {
+          signal.removeEventListener('abort', handleAbort);
+          resolve(response);
+        },
+        error => {
+          signal.removeEventListener('abort', handleAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Builds a key identifying the request from its url (version, path and query),
+   * scopes and headers. Returns null if the request should not be de-duplicated.
+   */
+  private getRequestKey(context: Context): string {
+    const options = context.options || {};
+    const method = (options.method || 'GET').toUpperCase();
+    if (method !== 'GET' || typeof context.request !== 'string') {
+      return null;
+    }
+
+    const headers = getHeaders(options.headers);
+    const skipHeader = Object.keys(headers).find(h => h.toLowerCase() === SKIP_DEDUPLICATION_HEADER);
+    if (skipHeader) {
+      this.removeHeader(options, skipHeader);
+      return null;
+    }
+
+    let scopes: string[] = [];
+    const authOptions = context.middlewareControl
+      ? (context.middlewareControl.getMiddlewareOptions(AuthenticationHandlerOptions) as AuthenticationHandlerOptions)
+      : null;
+    if (authOptions && authOptions.authenticationProviderOptions && authOptions.authenticationProviderOptions.scopes) {
+      scopes = [...authOptions.authenticationProviderOptions.scopes].sort();
+    }
+
+    const sortedHeaders = Object.keys(headers)
+      .sort()
+      .map(h => `${h.toLowerCase()}:${headers[h]}`);
+
+    return JSON.stringify([context.request, scopes, sortedHeaders]);
+  }
+
+  private removeHeader(options: RequestInit, header: string) {
+    if (typeof Headers !== 'undefined' && options.headers instanceof Headers) {
+      options.headers.delete(header);
+    } else if (Array.isArray(options.headers)) {
+      options.headers = options.headers.filter(([name]) => name !== header);
+    } else {
+      delete options.headers[header];
+    }
+  }
+}
@@ -8,6 +8,83 @@
 import { AuthenticationHandlerOptions, Middleware } from '@microsoft/microsoft-graph-client';
 import { Providers } from '..';
 
+/**
+ * The Microsoft Graph endpoints of the global service and of the national clouds
+ */
+export type GraphEndpoint =
+  | 'https://graph.microsoft.com'
+  | 'https://graph.microsoft.us'
+  | 'https://dod-graph.microsoft.us'
+  | 'https://graph.microsoft.de'
+  | 'https://microsoftgraph.chinacloudapi.cn';
+
+/**
+ * The Microsoft Graph endpoint of the global service
+ */
+export const MICROSOFT_GRAPH_DEFAULT_ENDPOINT: GraphEndpoint = 'https://graph.microsoft.com';
+
+/**
+ * Azure AD hosts used to sign in, by Microsoft Graph endpoint
+ */
+const authorityHosts: { [endpoint: string]: string } = {
+  'https://dod-graph.microsoft.us': 'https://login.microsoftonline.us',
+  'https://graph.microsoft.com': 'https://login.microsoftonline.com',
+  'https://graph.microsoft.de': 'https://login.microsoftonline.de',
+  'https://graph.microsoft.us': 'https://login.microsoftonline.us',
+  'https://microsoftgraph.chinacloudapi.cn': 'https://login.chinacloudapi.cn'
+};
+
+/**
+ * OpenID Connect scopes, requested from Azure AD without the Graph endpoint
+ */
+const oidcScopes = ['openid', 'profile', 'offline_access', 'email'];
+
+/**
+ * returns the Azure AD host used to sign in to the cloud of a Microsoft Graph endpoint
+ *
+ * @export
+ * @param {GraphEndpoint} endpoint
+ * @returns {string} ex: https://login.microsoftonline.us
+ */
+export function getAuthorityHost(endpoint: GraphEndpoint): string {
+  return authorityHosts[endpoint] || authorityHosts[MICROSOFT_GRAPH_DEFAULT_ENDPOINT];
+}
+
+/**
+ * prefixes scopes with the Graph endpoint when a national cloud is used,
+ * scopes that are already prefixed and OpenID Connect scopes (ex: openid, profile) are left untouched
+ *
+ * @export
+ * @param {...string[]} scopes
+ * @returns {string[]}
+ */
+export function prefixScopes(...scopes: string[]): string[] {
+  const baseUrl = Providers.baseUrl;
+  if (baseUrl === MICROSOFT_GRAPH_DEFAULT_ENDPOINT) {
+    return scopes;
+  }
+
+  return scopes.map(scope =>
+    scope.includes('://') || oidcScopes.indexOf(scope.toLowerCase()) !== -1 ? scope : `${baseUrl}/${scope}`
+  );
+}
+
+/**
+ * returns the path and query of a Graph url (ex: a nextLink),
+ * relative to the version of the Graph
+ *
+ * @export
+ * @param {string} url ex: https://graph.microsoft.com/v1.0/me/people?$skip=10
+ * @param {string} version ex: v1.0
+ * @returns {string} ex: /me/people?$skip=10
+ */
+export function getRelativeGraphUrl(url: string, version: string): string {
+  const { pathname, search } = new URL(url, Providers.baseUrl);
+  const versionPath = `/${version}`;
+  const path = pathname.startsWith(versionPath + '/') ? pathname.substr(versionPath.length) : pathname;
+  return path + search;
+}
+
 /**
  * creates an AuthenticationHandlerOptions from scopes array that
  * can be used in the Graph sdk middleware chain
@@ -18,7 +95,7 @@ import { Providers } from '..';
  */
 export function prepScopes(...scopes: string[]) {
   const authProviderOptions = {
-    scopes
+    scopes: prefixScopes(...scopes)
   };
 
   if (!Providers.globalProvider.isIncrementalConsentDisabled) {
@@ -7,6 +7,7 @@
 
 import { GraphRequest } from '@microsoft/microsoft-graph-client';
 import { IGraph } from '../IGraph';
+import { getRelativeGraphUrl } from './GraphHelpers';
 
 /**
  * A helper class to assist in getting multiple pages from a resource
@@ -101,7 +102,7 @@ export class GraphPageIterator<T> {
    */
   public async next(): Promise<T[]> {
     if (this._nextLink) {
-      const nextResource = this._nextLink.split(this._version)[1];
+      const nextResource = getRelativeGraphUrl(this._nextLink, this._version);
       const response = await this._graph.api(nextResource).version(this._version).get();
       if (response && response.value && response.value.length) {
         this._value = this._value.concat(response.value);
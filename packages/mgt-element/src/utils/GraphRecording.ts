@@ -0,0 +1,636 @@
+/**
+ * -------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation.  All Rights Reserved.  Licensed under the MIT License.
+ * See License in the project root for license information.
+ * -------------------------------------------------------------------------------------------
+ */
+
+import { Context, Middleware } from '@microsoft/microsoft-graph-client';
+import { createResponseFromBatch, getHeaders } from '../utils';
+
+/**
+ * A request saved in a GraphRecording
+ *
+ * @export
+ * @interface RecordedRequest
+ */
+export interface RecordedRequest {
+  /**
+   * HTTP method of the request, in upper case
+   *
+   * @type {string}
+   * @memberof RecordedRequest
+   */
+  method: string;
+
+  /**
+   * full url of the request, $batch sub requests are saved with their own url
+   *
+   * @type {string}
+   * @memberof RecordedRequest
+   */
+  url: string;
+
+  /**
+   * headers of the request
+   *
+   * @type {{ [header: string]: string }}
+   * @memberof RecordedRequest
+   */
+  headers?: { [header: string]: string };
+
+  /**
+   * body of the request, parsed when it is JSON
+   *
+   * @type {*}
+   * @memberof RecordedRequest
+   */
+  body?: any;
+}
+
+/**
+ * A response saved in a GraphRecording.
+ * Binary bodies are base64 encoded strings, like in $batch responses
+ *
+ * @export
+ * @interface RecordedResponse
+ */
+export interface RecordedResponse {
+  /**
+   * HTTP status of the response
+   *
+   * @type {number}
+   * @memberof RecordedResponse
+   */
+  status: number;
+
+  /**
+   * headers of the response
+   *
+   * @type {{ [header: string]: string }}
+   * @memberof RecordedResponse
+   */
+  headers?: { [header: string]: string };
+
+  /**
+   * body of the response, parsed when it is JSON
+   *
+   * @type {*}
+   * @memberof RecordedResponse
+   */
+  body?: any;
+}
+
+/**
+ * A request and its response saved in a GraphRecording
+ *
+ * @export
+ * @interface GraphRecordingEntry
+ */
+export interface GraphRecordingEntry {
+  /**
+   * the recorded request
+   *
+   * @type {RecordedRequest}
+   * @memberof GraphRecordingEntry
+   */
+  request: RecordedRequest;
+
+  /**
+   * the response of the request
+   *
+   * @type {RecordedResponse}
+   * @memberof GraphRecordingEntry
+   */
+  response: RecordedResponse;
+}
+
+/**
+ * Requests and responses recorded by the RecordMiddleware, in the order they completed.
+ * The recording is plain JSON so it can be saved to a file and replayed with the ReplayMiddleware.
+ *
+ * @export
+ * @interface GraphRecording
+ */
+export interface GraphRecording {
+  /**
+   * version of the recording format
+   *
+   * @type {number}
+   * @memberof GraphRecording
+   */
+  version: number;
+
+  /**
+   * recorded requests
+   *
+   * @type {GraphRecordingEntry[]}
+   * @memberof GraphRecording
+   */
+  entries: GraphRecordingEntry[];
+}
+
+/**
+ * Options controlling how requests are sanitized when recorded and matched when replayed.
+ * Use the same options to record and replay a recording.
+ *
+ * @export
+ * @interface GraphRecordingOptions
+ */
+export interface GraphRecordingOptions {
+  /**
+   * matches query parameters in any order (ex: ?$top=5&$select=id matches ?$select=id&$top=5).
+   * Defaults to true
+   *
+   * @type {boolean}
+   * @memberof GraphRecordingOptions
+   */
+  ignoreQueryOrder?: boolean;
+
+  /**
+   * names of the query parameters ignored when matching requests (ex: $skiptoken)
+   *
+   * @type {string[]}
+   * @memberof GraphRecordingOptions
+   */
+  ignoreQueryParameters?: string[];
+
+  /**
+   * matches the body of the requests in addition to their method and url.
+   * Defaults to false
+   *
+   * @type {boolean}
+   * @memberof GraphRecordingOptions
+   */
+  matchBody?: boolean;
+
+  /**
+   * names of the headers removed from the recorded requests and responses.
+   * Defaults to Authorization, Cookie and Set-Cookie
+   *
+   * @type {string[]}
+   * @memberof GraphRecordingOptions
+   */
+  redactHeaders?: string[];
+
+  /**
+   * names of the query parameters whose value is redacted.
+   * Defaults to access_token, code, tempauth and sig
+   *
+   * @type {string[]}
+   * @memberof GraphRecordingOptions
+   */
+  redactQueryParameters?: string[];
+
+  /**
+   * names of the JSON properties whose value is redacted at any depth
+   * of the request and response bodies (ex: mail, mobilePhone)
+   *
+   * @type {string[]}
+   * @memberof GraphRecordingOptions
+   */
+  redactProperties?: string[];
+
+  /**
+   * called with every entry before it is recorded, to remove any other sensitive data
+   *
+   * @memberof GraphRecordingOptions
+   */
+  sanitize?: (entry: GraphRecordingEntry) => GraphRecordingEntry;
+}
+
+/**
+ * Options of the ReplayMiddleware
+ *
+ * @export
+ * @interface ReplayOptions
+ * @extends {GraphRecordingOptions}
+ */
+export interface ReplayOptions extends GraphRecordingOptions {
+  /**
+   * sends the requests missing from the recording to the next middleware (the network).
+   * When false, they fail with a 404 response. Defaults to false
+   *
+   * @type {boolean}
+   * @memberof ReplayOptions
+   */
+  passthrough?: boolean;
+}
+
+/**
+ * current version of the recording format
+ */
+const recordingVersion = 1;
+
+/**
+ * value replacing redacted data
+ */
+const redacted = 'REDACTED';
+
+/**
+ * default values of the GraphRecordingOptions
+ */
+const defaultOptions: GraphRecordingOptions = {
+  ignoreQueryOrder: true,
+  ignoreQueryParameters: [],
+  matchBody: false,
+  redactHeaders: ['authorization', 'cookie', 'set-cookie'],
+  redactProperties: [],
+  redactQueryParameters: ['access_token', 'code', 'tempauth', 'sig']
+};
+
+/**
+ * splits a url between the version root (ex: https://graph.microsoft.com/v1.0) and the resource
+ */
+const urlRegex = /^(https?:\/\/[^\/]+\/[^\/]+)(\/.*)?$/;
+
+/**
+ * Sanitizes recorded entries and builds the keys used to match requests with recorded entries
+ */
+class RecordingRules {
+  private _options: GraphRecordingOptions;
+
+  constructor(options: GraphRecordingOptions = {}) {
+    this._options = { ...defaultOptions, ...options };
+  }
+
+  /**
+   * Returns a copy of the entry without tokens, redacted headers and properties
+   */
+  public sanitize(entry: GraphRecordingEntry): GraphRecordingEntry {
+    const request = entry.request;
+    const response = entry.response;
+    const sanitized: GraphRecordingEntry = {
+      request: {
+        body: this.redactProperties(request.body),
+        headers: this.redactHeaders(request.headers),
+        method: request.method.toUpperCase(),
+        url: this.redactUrl(request.url)
+      },
+      response: {
+        body: this.redactProperties(response.body),
+        headers: this.redactHeaders(response.headers),
+        status: response.status
+      }
+    };
+    return this._options.sanitize ? this._options.sanitize(sanitized) : sanitized;
+  }
+
+  /**
+   * Returns the key matching a request with the recorded entries.
+   * The origin is ignored so a recording can be replayed against any Graph endpoint.
+   */
+  public getKey(method: string, url: string, body?: any): string {
+    const parsedUrl = new URL(this.redactUrl(url));
+    const ignored = this._options.ignoreQueryParameters.map(p => p.toLowerCase());
+
+    const query: string[] = [];
+    parsedUrl.searchParams.forEach((value, name) => {
+      if (!ignored.includes(name.toLowerCase())) {
+        query.push(`${name.toLowerCase()}=${value}`);
+      }
+    });
+    if (this._options.ignoreQueryOrder) {
+      query.sort();
+    }
+
+    let key = `${method.toUpperCase()} ${decodeURIComponent(parsedUrl.pathname).toLowerCase()}?${query.join('&')}`;
+    if (this._options.matchBody && body !== undefined && body !== null) {
+      key += ` ${JSON.stringify(this.redactProperties(parseBody(body)))}`;
+    }
+    return key;
+  }
+
+  private redactUrl(url: string): string {
+    for (const name of this._options.redactQueryParameters) {
+      const escapedName = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      url = url.replace(new RegExp(`([?&]${escapedName}=)[^&#]*`, 'gi'), `$1${redacted}`);
+    }
+    return url;
+  }
+
+  private redactHeaders(headers: { [header: string]: string }): { [header: string]: string } {
+    if (!headers) {
+      return headers;
+    }
+
+    const names = this._options.redactHeaders.map(h => h.toLowerCase());
+    const result = {};
+    for (const header of Object.keys(headers)) {
+      if (!names.includes(header.toLowerCase())) {
+        result[header] = headers[header];
+      }
+    }
+    return result;
+  }
+
+  private redactProperties(value: any): any {
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactProperties(item));
+    }
+
+    const names = this._options.redactProperties.map(p => p.toLowerCase());
+    const result = {};
+    for (const property of Object.keys(value)) {
+      result[property] = names.includes(property.toLowerCase()) ? redacted : this.redactProperties(value[property]);
+    }
+    return result;
+  }
+}
+
+/**
+ * Implements Middleware for the Graph sdk to record the requests and their responses
+ * so they can be saved to a file and replayed with the ReplayMiddleware.
+ * Sub requests of $batch requests are recorded as separate entries.
+ *
+ * Ex: Providers.customMiddleware = [recorder], before creating the provider
+ *
+ * @export
+ * @class RecordMiddleware
+ * @implements {Middleware}
+ */
+// tslint:disable-next-line: max-classes-per-file
+export class RecordMiddleware implements Middleware {
+  /**
+   * The requests recorded so far
+   *
+   * @readonly
+   * @type {GraphRecording}
+   * @memberof RecordMiddleware
+   */
+  public get recording(): GraphRecording {
+    return { version: recordingVersion, entries: [...this._entries] };
+  }
+
+  /**
+   * @private
+   * A member to hold next middleware in the middleware chain
+   */
+  private _nextMiddleware: Middleware;
+  private _entries: GraphRecordingEntry[] = [];
+  private _rules: RecordingRules;
+
+  constructor(options?: GraphRecordingOptions) {
+    this._rules = new RecordingRules(options);
+  }
+
+  // tslint:disable-next-line: completed-docs
+  public async execute(context: Context): Promise<void> {
+    await this._nextMiddleware.execute(context);
+
+    if (typeof context.request !== 'string' || !context.response) {
+      return;
+    }
+
+    const options = context.options || {};
+    const request: RecordedRequest = {
+      body: parseBody(options.body),
+      headers: getHeaders(options.headers),
+      method: (options.method || 'GET').toUpperCase(),
+      url: context.request
+    };
+    const response = await readResponse(context.response.clone());
+
+    const urlParts = urlRegex.exec(request.url);
+    if (
+      request.method === 'POST' &&
+      urlParts &&
+      urlParts[2] === '/$batch' &&
+      request.body &&
+      Array.isArray(request.body.requests)
+    ) {
+      this.recordBatch(urlParts[1], request.body.requests, response);
+    } else {
+      this._entries.push(this._rules.sanitize({ request, response }));
+    }
+  }
+
+  /**
+   * Handles setting of next middleware
+   *
+   * @param {Middleware} next
+   * @memberof RecordMiddleware
+   */
+  public setNext(next: Middleware): void {
+    this._nextMiddleware = next;
+  }
+
+  /**
+   * Removes the recorded requests
+   *
+   * @memberof RecordMiddleware
+   */
+  public clear() {
+    this._entries = [];
+  }
+
+  /**
+   * Serializes the recording to JSON, to save it to a file
+   *
+   * @returns {string}
+   * @memberof RecordMiddleware
+   */
+  public toJSON(): string {
+    return JSON.stringify(this.recording, null, 2);
+  }
+
+  private recordBatch(root: string, requests: any[], batchResponse: RecordedResponse) {
+    const responses: any[] = (batchResponse.body && batchResponse.body.responses) || [];
+    for (const subRequest of requests) {
+      const subResponse = responses.find(r => r.id === subRequest.id);
+      if (!subResponse) {
+        continue;
+      }
+
+      this._entries.push(
+        this._rules.sanitize({
+          request: {
+            body: subRequest.body,
+            headers: subRequest.headers,
+            method: subRequest.method,
+            url: getBatchRequestUrl(root, subRequest.url)
+          },
+          response: { body: subResponse.body, headers: subResponse.headers, status: subResponse.status }
+        })
+      );
+    }
+  }
+}
+
+/**
+ * Implements Middleware for the Graph sdk to answer requests with the responses of a GraphRecording,
+ * to reproduce an issue without access to the tenant where it was recorded.
+ * Requests made several times get the recorded responses in order, then the last one.
+ * $batch requests are answered from the recorded sub requests.
+ *
+ * Ex: Providers.customMiddleware = [new ReplayMiddleware(recordingJson)], before creating the provider
+ *
+ * @export
+ * @class ReplayMiddleware
+ * @implements {Middleware}
+ */
+// tslint:disable-next-line: max-classes-per-file
+export class ReplayMiddleware implements Middleware {
+  /**
+   * @private
+   * A member to hold next middleware in the middleware chain
+   */
+  private _nextMiddleware: Middleware;
+  private _options: ReplayOptions;
+  private _rules: RecordingRules;
+  private _entries: Map<string, RecordedResponse[]> = new Map();
+  private _served: Map<string, number> = new Map();
+
+  /**
+   * Creates a new ReplayMiddleware
+   *
+   * @param {(GraphRecording | string)} recording the recording, or its JSON
+   * @param {ReplayOptions} [options] use the options the recording was made with
+   * @memberof ReplayMiddleware
+   */
+  constructor(recording: GraphRecording | string, options: ReplayOptions = {}) {
+    this._options = options;
+    this._rules = new RecordingRules(options);
+
+    const parsed: GraphRecording = typeof recording === 'string' ? JSON.parse(recording) : recording;
+    if (!parsed || parsed.version !== recordingVersion || !Array.isArray(parsed.entries)) {
+      throw new Error('Unsupported Graph recording');
+    }
+
+    for (const entry of parsed.entries) {
+      const key = this._rules.getKey(entry.request.method, entry.request.url, entry.request.body);
+      const responses = this._entries.get(key) || [];
+      responses.push(entry.response);
+      this._entries.set(key, responses);
+    }
+  }
+
+  // tslint:disable-next-line: completed-docs
+  public async execute(context: Context): Promise<void> {
+    if (typeof context.request !== 'string') {
+      return await this._nextMiddleware.execute(context);
+    }
+
+    const options = context.options || {};
+    const method = (options.method || 'GET').toUpperCase();
+    const body = parseBody(options.body);
+
+    const urlParts = urlRegex.exec(context.request);
+    if (method === 'POST' && urlParts && urlParts[2] === '/$batch' && body && Array.isArray(body.requests)) {
+      return await this.replayBatch(context, urlParts[1], body.requests);
+    }
+
+    const response = this.findResponse(method, context.request, body);
+    if (response) {
+      context.response = createResponseFromBatch(response);
+    } else if (this._options.passthrough) {
+      await this._nextMiddleware.execute(context);
+    } else {
+      context.response = createResponseFromBatch(this.getNotFoundResponse(method, context.request));
+    }
+  }
+
+  /**
+   * Handles setting of next middleware
+   *
+   * @param {Middleware} next
+   * @memberof ReplayMiddleware
+   */
+  public setNext(next: Middleware): void {
+    this._nextMiddleware = next;
+  }
+
+  private async replayBatch(context: Context, root: string, requests: any[]) {
+    const responses = requests.map(request => {
+      const url = getBatchRequestUrl(root, request.url);
+      const response = this.findResponse(request.method, url, request.body);
+      return { id: request.id, response, url, method: request.method };
+    });
+
+    if (this._options.passthrough && responses.some(r => !r.response)) {
+      return await this._nextMiddleware.execute(context);
+    }
+
+    context.response = createResponseFromBatch({
+      body: {
+        responses: responses.map(r => ({
+          id: r.id,
+          ...(r.response || this.getNotFoundResponse(r.method, r.url))
+        }))
+      },
+      headers: { 'Content-Type': 'application/json' },
+      status: 200
+    });
+  }
+
+  private findResponse(method: string, url: string, body: any): RecordedResponse {
+    const key = this._rules.getKey(method, url, body);
+    const responses = this._entries.get(key);
+    if (!responses) {
+      return null;
+    }
+
+    const served = this._served.get(key) || 0;
+    this._served.set(key, served + 1);
+    return responses[Math.min(served, responses.length - 1)];
+  }
+
+  private getNotFoundResponse(method: string, url: string): RecordedResponse {
+    return {
+      body: { error: { code: 'RecordingNotFound', message: `No recorded response for ${method} ${url}` } },
+      headers: { 'Content-Type': 'application/json' },
+      status: 404
+    };
+  }
+}
+
+/**
+ * returns the full url of a $batch sub request
+ */
+function getBatchRequestUrl(root: string, url: string): string {
+  return `${root}${url.startsWith('/') ? '' : '/'}${url}`;
+}
+
+/**
+ * parses a JSON request body, other bodies are returned as is
+ */
+function parseBody(body: any): any {
+  if (typeof body === 'string') {
+    try {
+      return JSON.parse(body);
+    } catch (e) {
+      return body;
+    }
+  }
+  return body === null ? undefined : body;
+}
+
+/**
+ * reads the status, headers and body of a response.
+ * Binary bodies are base64 encoded
+ */
+async function readResponse(response: Response): Promise<RecordedResponse> {
+  const headers = {};
+  response.headers.forEach((value, name) => (headers[name] = value));
+
+  const contentType = response.headers.get('content-type') || '';
+  let body: any;
+  if (response.status !== 204) {
+    if (!contentType || contentType.includes('json') || contentType.startsWith('text')) {
+      const text = await response.text();
+      body = text ? parseBody(text) : undefined;
+    } else {
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      let binary = '';
+      for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode.apply(null, bytes.subarray(i, i + 0x8000));
+      }
+      body = btoa(binary);
+    }
+  }
+
+  return { body, headers, status: response.status };
+}
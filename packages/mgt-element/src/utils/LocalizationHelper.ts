@@ -23,6 +23,10 @@ export class LocalizationHelper {
 
   private static mutationObserver;
 
+  private static _locale: string;
+
+  private static _formatters: Map<string, any> = new Map();
+
   public static get strings() {
     return this._strings;
   }
@@ -38,6 +42,107 @@ export class LocalizationHelper {
     this._stringsEventDispatcher.fire(null);
   }
 
+  /**
+   * The locale used to format dates, times and numbers (ex: fr-FR).
+   * Defaults to the language of the browser
+   *
+   * @static
+   * @type {string}
+   * @memberof LocalizationHelper
+   */
+  public static get locale(): string {
+    if (this._locale) {
+      return this._locale;
+    }
+
+    if (typeof navigator !== 'undefined') {
+      return (navigator.languages && navigator.languages[0]) || navigator.language;
+    }
+    return undefined;
+  }
+
+  /**
+   * Set the locale used to format dates, times and numbers, set it to null to use the language of the browser.
+   * Components are updated like when the strings change
+   *
+   * @static
+   * @memberof LocalizationHelper
+   */
+  public static set locale(value: string) {
+    this._locale = value;
+    this._stringsEventDispatcher.fire(null);
+  }
+
+  /**
+   * Formats a date and/or time in the current locale
+   *
+   * @static
+   * @param {Date} date
+   * @param {Intl.DateTimeFormatOptions} [options] parts of the date to include (ex: { month: 'long', day: 'numeric' })
+   * @returns {string}
+   * @memberof LocalizationHelper
+   */
+  public static formatDate(date: Date, options?: Intl.DateTimeFormatOptions): string {
+    const formatter = this.getFormatter('date', options, (locale, o) => new Intl.DateTimeFormat(locale, o));
+    return formatter.format(date);
+  }
+
+  /**
+   * Formats a number in the current locale
+   *
+   * @static
+   * @param {number} value
+   * @param {Intl.NumberFormatOptions} [options] (ex: { maximumFractionDigits: 2 })
+   * @returns {string}
+   * @memberof LocalizationHelper
+   */
+  public static formatNumber(value: number, options?: Intl.NumberFormatOptions): string {
+    const formatter = this.getFormatter('number', options, (locale, o) => new Intl.NumberFormat(locale, o));
+    return formatter.format(value);
+  }
+
+  /**
+   * Formats a message of a strings.ts file with parameters, using a subset of the ICU message syntax:
+   *
+   * - `{name}` is replaced by the parameter, numbers are formatted in the current locale
+   * - `{count, plural, =0 {no files} one {# file} other {# files}}` picks the text matching the
+   *   plural category of the count in the current locale (zero, one, two, few, many or other),
+   *   `=N` matches an exact value and `#` is replaced by the formatted count
+   * - `{type, select, user {...} group {...} other {...}}` picks the text matching the parameter
+   *
+   * Placeholders without a matching parameter are left as is.
+   *
+   * @static
+   * @param {string} message (ex: 'Showing {count, plural, one {# file} other {# files}} of {total}')
+   * @param {{ [name: string]: any }} [params] values of the placeholders, by name
+   * @returns {string}
+   * @memberof LocalizationHelper
+   */
+  public static formatMessage(message: string, params?: { [name: string]: any }): string {
+    if (!message) {
+      return message;
+    }
+    return this.formatMessagePart(message, params || {}, undefined);
+  }
+
+  /**
+   * Returns the plural category of a number in the current locale (ex: one, few, other)
+   *
+   * @static
+   * @param {number} value
+   * @returns {string}
+   * @memberof LocalizationHelper
+   */
+  public static getPluralCategory(value: number): string {
+    const intl: any = Intl;
+    if (!intl.PluralRules) {
+      return value === 1 ? 'one' : 'other';
+    }
+
+    const rules = this.getFormatter('plural', undefined, (locale, o) => new intl.PluralRules(locale, o));
+    return rules.select(value);
+  }
+
   /**
    * returns body dir attribute to determine rtl or ltr
    *
@@ -75,6 +180,149 @@ export class LocalizationHelper {
 
   private static _isDirectionInit = false;
 
+  /**
+   * Returns a cached Intl formatter for the current locale,
+   * falling back to the default locale of the browser when the locale is not supported
+   *
+   * @private
+   * @static
+   * @memberof LocalizationHelper
+   */
+  private static getFormatter<O, F>(type: string, options: O, create: (locale: string, options: O) => F): F {
+    const locale = this.locale;
+    const key = JSON.stringify([type, locale, options]);
+
+    let formatter = this._formatters.get(key);
+    if (!formatter) {
+      try {
+        formatter = create(locale, options);
+      } catch (e) {
+        formatter = create(undefined, options);
+      }
+      this._formatters.set(key, formatter);
+    }
+    return formatter;
+  }
+
+  /**
+   * Formats a message, or the text of a plural case where # is replaced by the formatted count
+   *
+   * @private
+   * @static
+   * @memberof LocalizationHelper
+   */
+  private static formatMessagePart(message: string, params: { [name: string]: any }, count: string): string {
+    let result = '';
+    let i = 0;
+    while (i < message.length) {
+      const char = message[i];
+      if (char === '#' && count !== undefined) {
+        result += count;
+        i++;
+      } else if (char !== '{') {
+        result += char;
+        i++;
+      } else {
+        const end = this.findClosingBrace(message, i);
+        if (end < 0) {
+          result += message.substring(i);
+          break;
+        }
+        result += this.formatPlaceholder(message.substring(i + 1, end), params);
+        i = end + 1;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Formats the content of a placeholder: name, or name, plural|select, cases
+   *
+   * @private
+   * @static
+   * @memberof LocalizationHelper
+   */
+  private static formatPlaceholder(placeholder: string, params: { [name: string]: any }): string {
+    const parts = placeholder.split(',');
+    const name = parts[0].trim();
+    const value = params[name];
+    if (value === undefined || value === null) {
+      return `{${placeholder}}`;
+    }
+
+    const type = parts.length > 2 ? parts[1].trim() : null;
+    if (type !== 'plural' && type !== 'select') {
+      return typeof value === 'number' ? this.formatNumber(value) : String(value);
+    }
+
+    const cases = this.parseCases(parts.slice(2).join(','));
+    if (type === 'select') {
+      const text = cases[String(value)] !== undefined ? cases[String(value)] : cases.other;
+      return text === undefined ? String(value) : this.formatMessagePart(text, params, undefined);
+    }
+
+    const count = typeof value === 'number' ? value : parseFloat(value);
+    let selected = cases[`=${count}`];
+    if (selected === undefined) {
+      selected = cases[this.getPluralCategory(count)];
+    }
+    if (selected === undefined) {
+      selected = cases.other;
+    }
+    const formattedCount = this.formatNumber(count);
+    return selected === undefined ? formattedCount : this.formatMessagePart(selected, params, formattedCount);
+  }
+
+  /**
+   * Parses the cases of a plural or select placeholder (ex: one {# file} other {# files}) to texts by selector
+   *
+   * @private
+   * @static
+   * @memberof LocalizationHelper
+   */
+  private static parseCases(cases: string): { [selector: string]: string } {
+    const result: { [selector: string]: string } = {};
+    let i = 0;
+    while (i < cases.length) {
+      const start = cases.indexOf('{', i);
+      if (start < 0) {
+        break;
+      }
+      const end = this.findClosingBrace(cases, start);
+      if (end < 0) {
+        break;
+      }
+      const selector = cases.substring(i, start).trim();
+      if (selector) {
+        result[selector] = cases.substring(start + 1, end);
+      }
+      i = end + 1;
+    }
+    return result;
+  }
+
+  /**
+   * Returns the index of the brace closing the one at start, or -1
+   *
+   * @private
+   * @static
+   * @memberof LocalizationHelper
+   */
+  private static findClosingBrace(text: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < text.length; i++) {
+      if (text[i] === '{') {
+        depth++;
+      } else if (text[i] === '}') {
+        depth--;
+        if (depth === 0) {
+          return i;
+        }
+      }
+    }
+    return -1;
+  }
+
   /**
    * Checks for direction setup and adds mutationObserver
    *
@@ -0,0 +1,176 @@
+/**
+ * -------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation.  All Rights Reserved.  Licensed under the MIT License.
+ * See License in the project root for license information.
+ * -------------------------------------------------------------------------------------------
+ */
+
+/**
+ * The kind of failure reported by a component
+ *
+ * @export
+ * @enum {string}
+ */
+export enum MgtErrorType {
+  /**
+   * the user needs to sign in again or consent to the required permissions
+   */
+  auth = 'auth',
+
+  /**
+   * the user doesn't have access to the resource
+   */
+  forbidden = 'forbidden',
+
+  /**
+   * the resource doesn't exist
+   */
+  notFound = 'notFound',
+
+  /**
+   * too many requests were made, the request can be retried later
+   */
+  throttled = 'throttled',
+
+  /**
+   * Microsoft Graph couldn't be reached
+   */
+  network = 'network',
+
+  /**
+   * any other failure
+   */
+  unknown = 'unknown'
+}
+
+/**
+ * Error reported by components when loading their state fails
+ *
+ * @export
+ * @class MgtError
+ * @extends {Error}
+ */
+export class MgtError extends Error {
+  /**
+   * Creates a MgtError from an error thrown by the Graph client or a provider
+   *
+   * @static
+   * @param {*} error
+   * @returns {MgtError}
+   * @memberof MgtError
+   */
+  public static fromError(error: any): MgtError {
+    if (error instanceof MgtError) {
+      return error;
+    }
+
+    if (!error) {
+      return new MgtError(MgtErrorType.unknown, 'Unknown error');
+    }
+
+    const statusCode: number = typeof error.statusCode === 'number' ? error.statusCode : error.status;
+    const code: string = error.errorCode || error.code;
+    const message: string = error.message || code || 'Unknown error';
+
+    const mgtError = new MgtError(this.getErrorType(error, statusCode), message, statusCode, code, error);
+
+    // keep the fields of GraphError so existing error handlers can still read them
+    mgtError.requestId = error.requestId;
+    mgtError.date = error.date;
+    mgtError.body = error.body;
+    return mgtError;
+  }
+
+  private static getErrorType(error: any, statusCode: number): MgtErrorType {
+    // msal errors (ex: consent_required, interaction_required) carry an errorCode
+    if (statusCode === 401 || (typeof error.errorCode === 'string' && !statusCode)) {
+      return MgtErrorType.auth;
+    }
+
+    switch (statusCode) {
+      case 403:
+        return MgtErrorType.forbidden;
+      case 404:
+        return MgtErrorType.notFound;
+      case 429:
+      case 503:
+        return MgtErrorType.throttled;
+    }
+
+    // the Graph client reports failed fetches with a -1 status code
+    if (
+      statusCode === -1 ||
+      error instanceof TypeError ||
+      (typeof navigator !== 'undefined' && navigator.onLine === false)
+    ) {
+      return MgtErrorType.network;
+    }
+
+    return MgtErrorType.unknown;
+  }
+
+  /**
+   * The kind of failure
+   *
+   * @type {MgtErrorType}
+   * @memberof MgtError
+   */
+  public type: MgtErrorType;
+
+  /**
+   * The HTTP status code of the failed request, if any
+   *
+   * @type {number}
+   * @memberof MgtError
+   */
+  public statusCode: number;
+
+  /**
+   * The error code returned by the Graph or the provider, if any
+   *
+   * @type {string}
+   * @memberof MgtError
+   */
+  public code: string;
+
+  /**
+   * The id of the failed Graph request, if any
+   *
+   * @type {string}
+   * @memberof MgtError
+   */
+  public requestId: string;
+
+  /**
+   * The date of the failed Graph request, if any
+   *
+   * @type {Date}
+   * @memberof MgtError
+   */
+  public date: Date;
+
+  /**
+   * The body of the failed Graph response, if any
+   *
+   * @type {*}
+   * @memberof MgtError
+   */
+  public body: any;
+
+  /**
+   * The original error
+   *
+   * @type {*}
+   * @memberof MgtError
+   */
+  public innerError: any;
+
+  constructor(type: MgtErrorType, message: string, statusCode?: number, code?: string, innerError?: any) {
+    super(message);
+    this.name = 'MgtError';
+    this.type = type;
+    this.statusCode = statusCode;
+    this.code = code;
+    this.innerError = innerError;
+  }
+}
@@ -0,0 +1,485 @@
+/**
+ * -------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation.  All Rights Reserved.  Licensed under the MIT License.
+ * See License in the project root for license information.
+ * -------------------------------------------------------------------------------------------
+ */
+
+import { GraphRequest } from '@microsoft/microsoft-graph-client';
+import { IGraph } from '../IGraph';
+import { ProviderState } from '../providers/IProvider';
+import { Providers } from '../providers/Providers';
+import { CacheSchema, CacheService } from './Cache';
+import { EventDispatcher, EventHandler } from './EventDispatcher';
+import { prepScopes } from './GraphHelpers';
+import { MgtError, MgtErrorType } from './MgtError';
+
+/**
+ * A write request waiting in the outbox to be sent to the Graph
+ *
+ * @export
+ * @interface OutboxRequest
+ */
+export interface OutboxRequest {
+  /**
+   * HTTP method of the request
+   *
+   * @type {('POST' | 'PATCH' | 'PUT' | 'DELETE')}
+   * @memberof OutboxRequest
+   */
+  method: 'POST' | 'PATCH' | 'PUT' | 'DELETE';
+
+  /**
+   * url of the request, relative to the Graph version
+   *
+   * @type {string}
+   * @memberof OutboxRequest
+   */
+  resource: string;
+
+  /**
+   * version of the Graph the request is sent to. Defaults to the version of the Graph sending the request
+   *
+   * @type {string}
+   * @memberof OutboxRequest
+   */
+  version?: string;
+
+  /**
+   * body of the request
+   *
+   * @type {*}
+   * @memberof OutboxRequest
+   */
+  body?: any;
+
+  /**
+   * headers of the request
+   *
+   * @type {{ [header: string]: string }}
+   * @memberof OutboxRequest
+   */
+  headers?: { [header: string]: string };
+
+  /**
+   * scopes required by the request
+   *
+   * @type {string[]}
+   * @memberof OutboxRequest
+   */
+  scopes?: string[];
+
+  /**
+   * date and time the request was added to the outbox
+   *
+   * @type {number}
+   * @memberof OutboxRequest
+   */
+  timeQueued?: number;
+}
+
+/**
+ * Event fired when the browser goes online or offline.
+ * When going online, it fires once the outbox has been replayed
+ *
+ * @export
+ * @interface ConnectivityChangedEvent
+ */
+export interface ConnectivityChangedEvent {
+  /**
+   * whether the browser is online
+   *
+   * @type {boolean}
+   * @memberof ConnectivityChangedEvent
+   */
+  isOnline: boolean;
+}
+
+/**
+ * Event fired when a request of the outbox is rejected by the Graph and removed from the outbox
+ *
+ * @export
+ * @interface OutboxRequestFailedEvent
+ */
+export interface OutboxRequestFailedEvent {
+  /**
+   * the request that failed
+   *
+   * @type {OutboxRequest}
+   * @memberof OutboxRequestFailedEvent
+   */
+  request: OutboxRequest;
+
+  /**
+   * the error returned by the Graph
+   *
+   * @type {MgtError}
+   * @memberof OutboxRequestFailedEvent
+   */
+  error: MgtError;
+}
+
+/**
+ * Request stored in the outbox
+ */
+interface OutboxEntry extends OutboxRequest {
+  /**
+   * position of the request in the outbox
+   */
+  order: number;
+}
+
+/**
+ * Schema of the outbox, stored with the cache storage adapters
+ */
+const outboxSchema: CacheSchema = {
+  name: 'outbox',
+  stores: {
+    requests: 'requests'
+  },
+  version: 1
+};
+
+/**
+ * Keeps components working while the browser is offline.
+ * When enabled, expired cache values are served while offline and the components using them are flagged as stale,
+ * components reload their state when the browser is back online,
+ * and write requests sent while offline are kept in an outbox and replayed in order once online.
+ *
+ * @export
+ * @class OfflineService
+ */
+export class OfflineService {
+  /**
+   * Whether offline mode is enabled
+   *
+   * @readonly
+   * @static
+   * @type {boolean}
+   * @memberof OfflineService
+   */
+  public static get isEnabled(): boolean {
+    return this._isEnabled;
+  }
+
+  /**
+   * Whether the browser is online.
+   * Always true when the environment doesn't report connectivity
+   *
+   * @readonly
+   * @static
+   * @type {boolean}
+   * @memberof OfflineService
+   */
+  public static get isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine !== false;
+  }
+
+  /**
+   * Enables offline mode
+   *
+   * @static
+   * @memberof OfflineService
+   */
+  public static enable() {
+    if (this._isEnabled) {
+      return;
+    }
+
+    this._isEnabled = true;
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+      window.addEventListener('offline', this.handleOffline);
+    }
+    Providers.onProviderUpdated(this.handleProviderUpdated);
+    Providers.onActiveAccountChanged(this.handleProviderUpdated);
+
+    this.replayOutbox();
+  }
+
+  /**
+   * Disables offline mode.
+   * Requests in the outbox are kept until offline mode is enabled again
+   *
+   * @static
+   * @memberof OfflineService
+   */
+  public static disable() {
+    if (!this._isEnabled) {
+      return;
+    }
+
+    this._isEnabled = false;
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+      window.removeEventListener('offline', this.handleOffline);
+    }
+    Providers.removeProviderUpdatedListener(this.handleProviderUpdated);
+    Providers.removeActiveAccountChangedListener(this.handleProviderUpdated);
+  }
+
+  /**
+   * Sends a write request to the Graph.
+   * When offline mode is enabled and the request can't be sent now, it is added to the outbox
+   * and the returned promise resolves with undefined.
+   * Requests are queued behind the requests already in the outbox to keep them in order.
+   *
+   * @static
+   * @param {IGraph} graph
+   * @param {OutboxRequest} request
+   * @returns {Promise<any>} the response of the Graph, or undefined when the request was queued
+   * @memberof OfflineService
+   */
+  public static async sendRequest(graph: IGraph, request: OutboxRequest): Promise<any> {
+    request = { ...request, version: request.version || graph.version };
+
+    if (!this._isEnabled) {
+      return await this.send(graph, request);
+    }
+
+    if (!this.isOnline || (await this.getPendingRequests()).length) {
+      await this.queueRequest(request);
+      this.replayOutbox();
+      return undefined;
+    }
+
+    try {
+      return await this.send(graph, request);
+    } catch (e) {
+      if (MgtError.fromError(e).type !== MgtErrorType.network) {
+        throw e;
+      }
+      await this.queueRequest(request);
+      return undefined;
+    }
+  }
+
+  /**
+   * Returns the requests in the outbox of the current account, in the order they will be sent
+   *
+   * @static
+   * @returns {Promise<OutboxRequest[]>}
+   * @memberof OfflineService
+   */
+  public static async getPendingRequests(): Promise<OutboxRequest[]> {
+    return (await this.getEntries()).map(([key, entry]) => {
+      const { order, ...request } = entry;
+      return request;
+    });
+  }
+
+  /**
+   * Removes all requests from the outbox of the current account without sending them
+   *
+   * @static
+   * @memberof OfflineService
+   */
+  public static async clearOutbox() {
+    try {
+      await this.storage.clearStore(outboxSchema, this.getDBName(), outboxSchema.stores.requests);
+    } catch (e) {
+      return;
+    }
+  }
+
+  /**
+   * Sends the requests in the outbox of the current account, in order.
+   * Stops at the first request that can't be sent yet, requests rejected by the Graph
+   * are removed from the outbox and reported with onOutboxRequestFailed
+   *
+   * @static
+   * @returns {Promise<void>}
+   * @memberof OfflineService
+   */
+  public static replayOutbox(): Promise<void> {
+    if (this._replayPromise) {
+      // requests queued during the replay are sent once it completes
+      this._replayAgain = true;
+    } else {
+      this._replayPromise = this.replay();
+    }
+    return this._replayPromise;
+  }
+
+  /**
+   * Fires event when the browser goes online or offline
+   *
+   * @static
+   * @param {EventHandler<ConnectivityChangedEvent>} event
+   * @memberof OfflineService
+   */
+  public static onConnectivityChanged(event: EventHandler<ConnectivityChangedEvent>) {
+    this._connectivityChangedDispatcher.add(event);
+  }
+
+  /**
+   * Remove event handler
+   *
+   * @static
+   * @param {EventHandler<ConnectivityChangedEvent>} event
+   * @memberof OfflineService
+   */
+  public static removeConnectivityChangedListener(event: EventHandler<ConnectivityChangedEvent>) {
+    this._connectivityChangedDispatcher.remove(event);
+  }
+
+  /**
+   * Fires event when a request of the outbox is rejected by the Graph
+   *
+   * @static
+   * @param {EventHandler<OutboxRequestFailedEvent>} event
+   * @memberof OfflineService
+   */
+  public static onOutboxRequestFailed(event: EventHandler<OutboxRequestFailedEvent>) {
+    this._outboxRequestFailedDispatcher.add(event);
+  }
+
+  /**
+   * Remove event handler
+   *
+   * @static
+   * @param {EventHandler<OutboxRequestFailedEvent>} event
+   * @memberof OfflineService
+   */
+  public static removeOutboxRequestFailedListener(event: EventHandler<OutboxRequestFailedEvent>) {
+    this._outboxRequestFailedDispatcher.remove(event);
+  }
+
+  private static _isEnabled: boolean = false;
+  private static _replayPromise: Promise<void>;
+  private static _replayAgain: boolean = false;
+  private static _nextOrder: number = 0;
+  private static _connectivityChangedDispatcher: EventDispatcher<ConnectivityChangedEvent> = new EventDispatcher<ConnectivityChangedEvent>();
+  private static _outboxRequestFailedDispatcher: EventDispatcher<OutboxRequestFailedEvent> = new EventDispatcher<OutboxRequestFailedEvent>();
+
+  private static get storage() {
+    return CacheService.getStorageAdapter(outboxSchema.name);
+  }
+
+  // each account gets its own outbox so requests are never sent on behalf of another account
+  private static getDBName(): string {
+    const cacheId = CacheService.cacheId;
+    return cacheId ? `mgt-${outboxSchema.name}-${cacheId}` : `mgt-${outboxSchema.name}`;
+  }
+
+  private static async getEntries(): Promise<[string, OutboxEntry][]> {
+    let entries: Map<string, OutboxEntry>;
+    try {
+      entries = await this.storage.getEntries<OutboxEntry>(
+        outboxSchema,
+        this.getDBName(),
+        outboxSchema.stores.requests
+      );
+    } catch (e) {
+      return [];
+    }
+    return [...entries].sort((a, b) => a[1].order - b[1].order);
+  }
+
+  private static async queueRequest(request: OutboxRequest) {
+    const timeQueued = Date.now();
+    const entry: OutboxEntry = {
+      ...request,
+      // requests queued within the same ms keep the order they were queued in
+      order: timeQueued * 1000 + (this._nextOrder++ % 1000),
+      timeQueued
+    };
+    await this.storage.putValue(
+      outboxSchema,
+      this.getDBName(),
+      outboxSchema.stores.requests,
+      entry.order.toString(),
+      entry
+    );
+  }
+
+  private static async replay() {
+    try {
+      do {
+        this._replayAgain = false;
+        await this.withOutboxLock(() => this.sendPendingRequests());
+      } while (this._replayAgain);
+    } catch (e) {
+      // the outbox couldn't be read or updated, the remaining requests are sent with the next replay
+    } finally {
+      this._replayPromise = null;
+    }
+  }
+
+  private static async sendPendingRequests() {
+    const provider = Providers.globalProvider;
+    if (!this._isEnabled || !this.isOnline || !provider || provider.state !== ProviderState.SignedIn) {
+      return;
+    }
+
+    const dbName = this.getDBName();
+    for (const [key, entry] of await this.getEntries()) {
+      const { order, ...request } = entry;
+      try {
+        await this.send(provider.graph, request);
+      } catch (e) {
+        const error = MgtError.fromError(e);
+        if (
+          error.type === MgtErrorType.network ||
+          error.type === MgtErrorType.throttled ||
+          error.type === MgtErrorType.auth
+        ) {
+          // try again with the next replay
+          return;
+        }
+        this._outboxRequestFailedDispatcher.fire({ request, error });
+      }
+      await this.storage.deleteValue(outboxSchema, dbName, outboxSchema.stores.requests, key);
+    }
+  }
+
+  private static send(graph: IGraph, request: OutboxRequest): Promise<any> {
+    let graphRequest: GraphRequest = graph.api(request.resource);
+    if (request.version) {
+      graphRequest = graphRequest.version(request.version);
+    }
+    if (request.headers) {
+      graphRequest = graphRequest.headers(request.headers);
+    }
+    if (request.scopes && request.scopes.length) {
+      graphRequest = graphRequest.middlewareOptions(prepScopes(...request.scopes));
+    }
+
+    switch (request.method) {
+      case 'POST':
+        return graphRequest.post(request.body);
+      case 'PATCH':
+        return graphRequest.patch(request.body);
+      case 'PUT':
+        return graphRequest.put(request.body);
+      case 'DELETE':
+        return graphRequest.delete();
+    }
+  }
+
+  // prevents other tabs from replaying the same outbox at the same time, when the browser supports it
+  private static async withOutboxLock(callback: () => Promise<void>): Promise<void> {
+    const locks = typeof navigator !== 'undefined' ? (navigator as any).locks : null;
+    if (locks && locks.request) {
+      await locks.request(this.getDBName(), callback);
+    } else {
+      await callback();
+    }
+  }
+
+  private static async handleOnline() {
+    try {
+      await OfflineService.replayOutbox();
+    } finally {
+      OfflineService._connectivityChangedDispatcher.fire({ isOnline: true });
+    }
+  }
+
+  private static handleOffline() {
+    OfflineService._connectivityChangedDispatcher.fire({ isOnline: false });
+  }
+
+  private static handleProviderUpdated() {
+    OfflineService.replayOutbox();
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * -------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation.  All Rights Reserved.  Licensed under the MIT License.
+ * See License in the project root for license information.
+ * -------------------------------------------------------------------------------------------
+ */
+
+/**
+ * Event fired when a Graph request starts
+ *
+ * @export
+ * @interface RequestStartedEvent
+ */
+export interface RequestStartedEvent {
+  /**
+   * identifies the request, the completed event of the request has the same id
+   *
+   * @type {number}
+   * @memberof RequestStartedEvent
+   */
+  requestId: number;
+
+  /**
+   * HTTP method of the request, in upper case
+   *
+   * @type {string}
+   * @memberof RequestStartedEvent
+   */
+  method: string;
+
+  /**
+   * full url of the request
+   *
+   * @type {string}
+   * @memberof RequestStartedEvent
+   */
+  url: string;
+
+  /**
+   * name of the component making the request (ex: mgt-person), if any
+   *
+   * @type {string}
+   * @memberof RequestStartedEvent
+   */
+  component?: string;
+
+  /**
+   * time the request started, in ms since epoch
+   *
+   * @type {number}
+   * @memberof RequestStartedEvent
+   */
+  startTime: number;
+}
+
+/**
+ * Event fired when a Graph request completes, successfully or not
+ *
+ * @export
+ * @interface RequestCompletedEvent
+ * @extends {RequestStartedEvent}
+ */
+export interface RequestCompletedEvent extends RequestStartedEvent {
+  /**
+   * time (in ms) between the start and the end of the request, including retries
+   *
+   * @type {number}
+   * @memberof RequestCompletedEvent
+   */
+  duration: number;
+
+  /**
+   * HTTP status of the response, undefined when the request failed without a response
+   *
+   * @type {number}
+   * @memberof RequestCompletedEvent
+   */
+  status?: number;
+
+  /**
+   * error thrown by the request (ex: network error, abort)
+   *
+   * @type {*}
+   * @memberof RequestCompletedEvent
+   */
+  error?: any;
+
+  /**
+   * number of times the request was sent again after a throttled or unavailable response.
+   * Requests sent in a $batch or shared with an identical request in flight report no retries
+   *
+   * @type {number}
+   * @memberof RequestCompletedEvent
+   */
+  retryCount: number;
+
+  /**
+   * total time (in ms) spent waiting before sending the request again
+   *
+   * @type {number}
+   * @memberof RequestCompletedEvent
+   */
+  throttlingDelay: number;
+}
+
+/**
+ * Event fired when a value is looked up in a cache store
+ *
+ * @export
+ * @interface CacheLookupEvent
+ */
+export interface CacheLookupEvent {
+  /**
+   * name of the cache schema (ex: mgt-people)
+   *
+   * @type {string}
+   * @memberof CacheLookupEvent
+   */
+  schema: string;
+
+  /**
+   * name of the store in the schema
+   *
+   * @type {string}
+   * @memberof CacheLookupEvent
+   */
+  store: string;
+
+  /**
+   * key of the value
+   *
+   * @type {string}
+   * @memberof CacheLookupEvent
+   */
+  key: string;
+
+  /**
+   * true when a value that has not expired was found
+   *
+   * @type {boolean}
+   * @memberof CacheLookupEvent
+   */
+  hit: boolean;
+}
@@ -0,0 +1,173 @@
+/**
+ * -------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation.  All Rights Reserved.  Licensed under the MIT License.
+ * See License in the project root for license information.
+ * -------------------------------------------------------------------------------------------
+ */
+
+import { Context, Middleware } from '@microsoft/microsoft-graph-client';
+import { ComponentMiddlewareOptions } from './ComponentMiddlewareOptions';
+import { EventDispatcher } from './EventDispatcher';
+import { CacheLookupEvent, RequestCompletedEvent, RequestStartedEvent } from './RequestTelemetry';
+
+/**
+ * dispatches the RequestStartedEvent, listeners are added with Providers.onRequestStarted
+ */
+export const requestStartedDispatcher = new EventDispatcher<RequestStartedEvent>();
+
+/**
+ * dispatches the RequestCompletedEvent, listeners are added with Providers.onRequestCompleted
+ */
+export const requestCompletedDispatcher = new EventDispatcher<RequestCompletedEvent>();
+
+/**
+ * dispatches the CacheLookupEvent, listeners are added with Providers.onCacheLookup
+ */
+export const cacheLookupDispatcher = new EventDispatcher<CacheLookupEvent>();
+
+/**
+ * Network attempts of a request, tracked by the RequestAttemptMiddleware
+ */
+interface RequestAttempts {
+  /**
+   * number of times the request was sent
+   */
+  count: number;
+
+  /**
+   * time waited between the attempts, in ms
+   */
+  delay: number;
+
+  /**
+   * time the last attempt completed
+   */
+  lastEnd: number;
+}
+
+/**
+ * attempts of the requests in flight, by context
+ */
+const requestAttempts: WeakMap<Context, RequestAttempts> = new WeakMap();
+
+/**
+ * id of the next request
+ */
+let nextRequestId = 1;
+
+/**
+ * fires an event without letting the listeners break the request or cache lookup
+ */
+export function fireSafely<E>(dispatcher: EventDispatcher<E>, event: E) {
+  try {
+    dispatcher.fire(event);
+  } catch (e) {
+    // ignore errors of the listeners
+  }
+}
+
+/**
+ * Implements Middleware for the Graph sdk to fire the request started and completed events.
+ * It is the first middleware of the chain so it reports every request made with the Graph,
+ * the RequestAttemptMiddleware reports the retries it sees to it.
+ *
+ * @class RequestTelemetryMiddleware
+ * @implements {Middleware}
+ */
+export class RequestTelemetryMiddleware implements Middleware {
+  /**
+   * @private
+   * A member to hold next middleware in the middleware chain
+   */
+  private _nextMiddleware: Middleware;
+
+  // tslint:disable-next-line: completed-docs
+  public async execute(context: Context): Promise<void> {
+    const componentOptions = context.middlewareControl
+      ? (context.middlewareControl.getMiddlewareOptions(ComponentMiddlewareOptions) as ComponentMiddlewareOptions)
+      : null;
+
+    const startedEvent: RequestStartedEvent = {
+      component: componentOptions ? componentOptions.componentName.toLowerCase() : undefined,
+      method: ((context.options && context.options.method) || 'GET').toUpperCase(),
+      requestId: nextRequestId++,
+      startTime: Date.now(),
+      url: typeof context.request === 'string' ? context.request : context.request.url
+    };
+    fireSafely(requestStartedDispatcher, startedEvent);
+
+    let error: any;
+    try {
+      await this._nextMiddleware.execute(context);
+    } catch (e) {
+      error = e;
+      throw e;
+    } finally {
+      const attempts = requestAttempts.get(context);
+      requestAttempts.delete(context);
+
+      fireSafely(requestCompletedDispatcher, {
+        ...startedEvent,
+        duration: Date.now() - startedEvent.startTime,
+        error,
+        retryCount: attempts ? attempts.count - 1 : 0,
+        status: context.response ? context.response.status : undefined,
+        throttlingDelay: attempts ? attempts.delay : 0
+      });
+    }
+  }
+
+  /**
+   * Handles setting of next middleware
+   *
+   * @param {Middleware} next
+   * @memberof RequestTelemetryMiddleware
+   */
+  public setNext(next: Middleware): void {
+    this._nextMiddleware = next;
+  }
+}
+
+/**
+ * Implements Middleware for the Graph sdk to count the times a request is sent,
+ * and the time waited between them. It is placed after the RetryHandler.
+ *
+ * @class RequestAttemptMiddleware
+ * @implements {Middleware}
+ */
+// tslint:disable-next-line: max-classes-per-file
+export class RequestAttemptMiddleware implements Middleware {
+  /**
+   * @private
+   * A member to hold next middleware in the middleware chain
+   */
+  private _nextMiddleware: Middleware;
+
+  // tslint:disable-next-line: completed-docs
+  public async execute(context: Context): Promise<void> {
+    let attempts = requestAttempts.get(context);
+    if (!attempts) {
+      attempts = { count: 0, delay: 0, lastEnd: 0 };
+      requestAttempts.set(context, attempts);
+    } else if (attempts.lastEnd) {
+      attempts.delay += Date.now() - attempts.lastEnd;
+    }
+
+    attempts.count++;
+    try {
+      await this._nextMiddleware.execute(context);
+    } finally {
+      attempts.lastEnd = Date.now();
+    }
+  }
+
+  /**
+   * Handles setting of next middleware
+   *
+   * @param {Middleware} next
+   * @memberof RequestAttemptMiddleware
+   */
+  public setNext(next: Middleware): void {
+    this._nextMiddleware = next;
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * -------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation.  All Rights Reserved.  Licensed under the MIT License.
+ * See License in the project root for license information.
+ * -------------------------------------------------------------------------------------------
+ */
+
+import { IProvider, ProviderState } from '../providers/IProvider';
+import { Providers, ProvidersChangedState } from '../providers/Providers';
+import { CacheInvalidatedEvent, CacheService } from './Cache';
+
+/**
+ * Message shared between tabs
+ */
+interface TabSyncMessage {
+  /**
+   * kind of change that happened in the sending tab
+   */
+  type: 'stateChanged' | 'activeAccountChanged' | 'cacheInvalidated';
+
+  /**
+   * name of the provider used in the sending tab
+   */
+  providerName?: string;
+
+  /**
+   * new provider state, for stateChanged messages
+   */
+  state?: ProviderState;
+
+  /**
+   * id of the new active account, for activeAccountChanged messages
+   */
+  accountId?: string;
+
+  /**
+   * id of the account whose caches were cleared, for cacheInvalidated messages
+   */
+  cacheId?: string;
+}
+
+/**
+ * Keeps the provider state, the active account and the caches
+ * in sync across all same-origin tabs using a BroadcastChannel.
+ * Changes received from other tabs are applied to the global provider,
+ * so components react through the regular Providers events.
+ *
+ * @export
+ * @class TabSync
+ */
+export class TabSync {
+  /**
+   * Whether changes are currently shared with other tabs
+   *
+   * @readonly
+   * @static
+   * @type {boolean}
+   * @memberof TabSync
+   */
+  public static get isEnabled(): boolean {
+    return !!this._channel;
+  }
+
+  /**
+   * Whether the environment supports syncing across tabs
+   *
+   * @readonly
+   * @static
+   * @type {boolean}
+   * @memberof TabSync
+   */
+  public static get isSupported(): boolean {
+    return typeof BroadcastChannel !== 'undefined';
+  }
+
+  /**
+   * Starts sharing changes with other tabs
+   *
+   * @static
+   * @param {string} [channelName='mgt-tab-sync'] name of the channel, tabs only sync with tabs using the same name
+   * @memberof TabSync
+   */
+  public static enable(channelName: string = 'mgt-tab-sync') {
+    if (this.isEnabled || !this.isSupported) {
+      return;
+    }
+
+    this._channel = new BroadcastChannel(channelName);
+    this._channel.onmessage = this.handleMessage;
+
+    Providers.onProviderUpdated(this.handleProviderUpdated);
+    Providers.onActiveAccountChanged(this.handleActiveAccountChanged);
+    CacheService.onCacheInvalidated(this.handleCacheInvalidated);
+  }
+
+  /**
+   * Stops sharing changes with other tabs
+   *
+   * @static
+   * @memberof TabSync
+   */
+  public static disable() {
+    if (!this.isEnabled) {
+      return;
+    }
+
+    Providers.removeProviderUpdatedListener(this.handleProviderUpdated);
+    Providers.removeActiveAccountChangedListener(this.handleActiveAccountChanged);
+    CacheService.removeCacheInvalidatedListener(this.handleCacheInvalidated);
+
+    this._channel.close();
+    this._channel = null;
+  }
+
+  private static _channel: BroadcastChannel;
+
+  // set while a message from another tab is applied, to avoid sending it back
+  private static _isApplyingMessage = false;
+
+  private static postMessage(message: TabSyncMessage) {
+    if (this._isApplyingMessage || !this._channel || !Providers.globalProvider) {
+      return;
+    }
+
+    this._channel.postMessage({ ...message, providerName: Providers.globalProvider.name });
+  }
+
+  private static handleProviderUpdated(state: ProvidersChangedState) {
+    const provider = Providers.globalProvider;
+
+    // loading and failed sign ins are specific to the tab that is signing in
+    if (
+      state === ProvidersChangedState.ProviderStateChanged &&
+      provider &&
+      (provider.state === ProviderState.SignedIn || provider.state === ProviderState.SignedOut)
+    ) {
+      TabSync.postMessage({ type: 'stateChanged', state: provider.state });
+    }
+  }
+
+  private static handleActiveAccountChanged() {
+    const provider = Providers.globalProvider;
+    const account = provider && provider.getActiveAccount ? provider.getActiveAccount() : null;
+
+    if (account) {
+      TabSync.postMessage({ type: 'activeAccountChanged', accountId: account.id });
+    }
+  }
+
+  private static handleCacheInvalidated(event: CacheInvalidatedEvent) {
+    TabSync.postMessage({ type: 'cacheInvalidated', cacheId: event.cacheId });
+  }
+
+  private static handleMessage(event: MessageEvent) {
+    const message: TabSyncMessage = event.data;
+    const provider = Providers.globalProvider;
+
+    // tabs using a different provider don't share the same sign in state
+    if (!message || !provider || message.providerName !== provider.name) {
+      return;
+    }
+
+    TabSync._isApplyingMessage = true;
+    try {
+      if (message.type === 'stateChanged') {
+        TabSync.applyState(provider, message.state);
+      } else if (message.type === 'activeAccountChanged') {
+        TabSync.applyActiveAccount(provider, message.accountId);
+      } else if (message.type === 'cacheInvalidated') {
+        CacheService.clearCacheById(message.cacheId);
+      }
+    } finally {
+      TabSync._isApplyingMessage = false;
+    }
+  }
+
+  private static applyState(provider: IProvider, state: ProviderState) {
+    if (state === ProviderState.SignedIn) {
+      if (provider.state === ProviderState.SignedIn) {
+        return;
+      }
+
+      // sign in with the session shared by the other tab instead of only copying its state
+      if (provider.trySilentSignIn) {
+        provider.trySilentSignIn().catch(() => {
+          // the provider sets its own state when the silent sign in fails
+        });
+      } else {
+        provider.setState(ProviderState.SignedIn);
+      }
+    } else if (state === ProviderState.SignedOut && provider.state !== ProviderState.SignedOut) {
+      // the other tab already ended the session, only the local state is left to clear
+      provider.setState(ProviderState.SignedOut);
+    }
+  }
+
+  private static applyActiveAccount(provider: IProvider, accountId: string) {
+    if (!provider.setActiveAccount || !provider.getAllAccounts) {
+      return;
+    }
+
+    const activeAccount = provider.getActiveAccount ? provider.getActiveAccount() : null;
+    if (activeAccount && activeAccount.id === accountId) {
+      return;
+    }
+
+    // the account might not be known to this tab yet
+    const account = (provider.getAllAccounts() || []).filter(a => a.id === accountId)[0];
+    if (account) {
+      provider.setActiveAccount(account);
+    }
+  }
+}
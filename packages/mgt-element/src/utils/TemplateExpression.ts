@@ -0,0 +1,703 @@
+/**
+ * -------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation.  All Rights Reserved.  Licensed under the MIT License.
+ * See License in the project root for license information.
+ * -------------------------------------------------------------------------------------------
+ */
+
+import { TemplateFilter } from './TemplateHelper';
+
+/**
+ * A token of a template expression
+ */
+interface Token {
+  /**
+   * kind of token
+   */
+  type: 'number' | 'string' | 'identifier' | 'punctuator';
+
+  /**
+   * value of the token: the parsed number or string, or the text of identifiers and punctuators
+   */
+  value: any;
+
+  /**
+   * position of the token in the expression
+   */
+  start: number;
+
+  /**
+   * position after the end of the token in the expression
+   */
+  end: number;
+}
+
+/**
+ * A node of a parsed template expression
+ */
+interface ExpressionNode {
+  /**
+   * kind of node: literal, identifier, member, call, unary, binary, logical, conditional, pipe, array or object
+   */
+  type: string;
+
+  /**
+   * value of a literal
+   */
+  value?: any;
+
+  /**
+   * name of an identifier or of the filter of a pipe
+   */
+  name?: string;
+
+  /**
+   * operator of a unary, binary or logical expression
+   */
+  operator?: string;
+
+  /**
+   * object of a member expression
+   */
+  object?: ExpressionNode;
+
+  /**
+   * property of a member expression
+   */
+  property?: ExpressionNode;
+
+  /**
+   * function of a call
+   */
+  callee?: ExpressionNode;
+
+  /**
+   * arguments of a call or of the filter of a pipe
+   */
+  args?: ExpressionNode[];
+
+  /**
+   * operand of a unary expression, or value passed to the filter of a pipe
+   */
+  argument?: ExpressionNode;
+
+  /**
+   * left operand of a binary or logical expression
+   */
+  left?: ExpressionNode;
+
+  /**
+   * right operand of a binary or logical expression
+   */
+  right?: ExpressionNode;
+
+  /**
+   * condition of a conditional expression
+   */
+  test?: ExpressionNode;
+
+  /**
+   * value of a conditional expression when the condition is true
+   */
+  consequent?: ExpressionNode;
+
+  /**
+   * value of a conditional expression when the condition is false
+   */
+  alternate?: ExpressionNode;
+
+  /**
+   * items of an array, or values of an object
+   */
+  elements?: ExpressionNode[];
+
+  /**
+   * keys of an object, matching its elements
+   */
+  keys?: string[];
+}
+
+/**
+ * A binding of a data-props attribute (ex: `@click: handleClick` or `personDetails: person`)
+ *
+ * @export
+ * @interface PropertyBinding
+ */
+export interface PropertyBinding {
+  /**
+   * name of the property, starting with @ for events
+   *
+   * @type {string}
+   * @memberof PropertyBinding
+   */
+  name: string;
+
+  /**
+   * expression of the value bound to the property
+   *
+   * @type {string}
+   * @memberof PropertyBinding
+   */
+  expression: string;
+}
+
+/**
+ * punctuators of the expression syntax, longest first so they are matched greedily
+ */
+const punctuators = [
+  '===',
+  '!==',
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '&&',
+  '||',
+  '??',
+  '|',
+  '?.',
+  '.',
+  '[',
+  ']',
+  '(',
+  ')',
+  '{',
+  '}',
+  ',',
+  '?',
+  ':',
+  '!',
+  '<',
+  '>',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '@'
+];
+
+/**
+ * binary operators, by precedence from the lowest
+ */
+const binaryPrecedence: string[][] = [
+  ['==', '!=', '===', '!=='],
+  ['<', '>', '<=', '>=', 'in'],
+  ['+', '-'],
+  ['*', '/', '%']
+];
+
+/**
+ * globals that can be used in expressions when the context doesn't define them
+ */
+const safeGlobals = {
+  Array,
+  Boolean,
+  Date,
+  Infinity,
+  JSON,
+  Math,
+  NaN,
+  Number,
+  Object,
+  String,
+  decodeURIComponent,
+  encodeURIComponent,
+  isNaN,
+  parseFloat,
+  parseInt
+};
+
+/**
+ * properties that can't be read, so expressions can't reach the Function constructor
+ */
+const blockedProperties = [
+  '__proto__',
+  'constructor',
+  'prototype',
+  '__defineGetter__',
+  '__defineSetter__',
+  '__lookupGetter__',
+  '__lookupSetter__'
+];
+
+/**
+ * parsed expressions, by source
+ */
+const parsedExpressions: Map<string, ExpressionNode> = new Map();
+
+/**
+ * splits an expression into tokens
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(expression[i + 1] || ''))) {
+      const match = /^(\d*\.?\d+|\d+\.)([eE][+-]?\d+)?/.exec(expression.substring(i));
+      tokens.push({ type: 'number', value: parseFloat(match[0]), start: i, end: i + match[0].length });
+      i += match[0].length;
+    } else if (char === '"' || char === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < expression.length && expression[i] !== char) {
+        if (expression[i] === '\\') {
+          i++;
+          const escaped = expression[i];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped === 'r' ? '\r' : escaped;
+        } else {
+          value += expression[i];
+        }
+        i++;
+      }
+      if (i >= expression.length) {
+        throw new SyntaxError(`Unterminated string in expression: ${expression}`);
+      }
+      i++;
+      tokens.push({ type: 'string', value, start, end: i });
+    } else if (/[$_a-zA-Z]/.test(char)) {
+      const match = /^[$\w]+/.exec(expression.substring(i));
+      tokens.push({ type: 'identifier', value: match[0], start: i, end: i + match[0].length });
+      i += match[0].length;
+    } else {
+      // ?. followed by a digit is a ternary with a number (ex: a?.5:1)
+      const punctuator = punctuators.find(
+        p => expression.startsWith(p, i) && !(p === '?.' && /[0-9]/.test(expression[i + 2] || ''))
+      );
+      if (!punctuator) {
+        throw new SyntaxError(`Unexpected character '${char}' in expression: ${expression}`);
+      }
+      tokens.push({ type: 'punctuator', value: punctuator, start: i, end: i + punctuator.length });
+      i += punctuator.length;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser of the expression syntax,
+ * a subset of JavaScript expressions without assignments or function definitions
+ */
+class ExpressionParser {
+  private _expression: string;
+  private _tokens: Token[];
+  private _position: number = 0;
+
+  constructor(expression: string) {
+    this._expression = expression;
+    this._tokens = tokenize(expression);
+  }
+
+  /**
+   * parses the whole expression
+   */
+  public parse(): ExpressionNode {
+    const node = this.parsePipeline();
+    if (this.peek()) {
+      this.unexpected();
+    }
+    return node;
+  }
+
+  /**
+   * parses a comma separated list of `name: expression` bindings
+   */
+  public parseBindings(): PropertyBinding[] {
+    const bindings: PropertyBinding[] = [];
+
+    while (this.peek()) {
+      let name = this.match('@') ? '@' : '';
+      const nameToken = this.next();
+      if (!nameToken || nameToken.type === 'punctuator') {
+        this.unexpected(nameToken);
+      }
+      name += nameToken.value;
+      // event names can contain dashes (ex: @selection-changed)
+      while (this.peek() && this.peek().value === '-' && this.peek().start === this._tokens[this._position - 1].end) {
+        this.next();
+        name += '-' + this.next().value;
+      }
+      this.expect(':');
+
+      const start = this.peek() ? this.peek().start : this._expression.length;
+      this.parsePipeline();
+      const end = this._position > 0 ? this._tokens[this._position - 1].end : start;
+      bindings.push({ name, expression: this._expression.substring(start, end) });
+
+      if (this.peek()) {
+        this.expect(',');
+      }
+    }
+
+    return bindings;
+  }
+
+  private parsePipeline(): ExpressionNode {
+    let node = this.parseExpression();
+
+    // ex: value | date:'short' | uppercase
+    while (this.match('|')) {
+      const name = this.next();
+      if (!name || name.type !== 'identifier') {
+        this.unexpected(name);
+      }
+
+      // arguments can't be ternaries, their : would be read as the start of the next argument
+      const args: ExpressionNode[] = [];
+      while (this.match(':')) {
+        args.push(this.parseLogical(0));
+      }
+      node = { type: 'pipe', name: name.value, argument: node, args };
+    }
+
+    return node;
+  }
+
+  private parseExpression(): ExpressionNode {
+    const test = this.parseLogical(0);
+    if (!this.match('?')) {
+      return test;
+    }
+
+    const consequent = this.parseExpression();
+    this.expect(':');
+    const alternate = this.parseExpression();
+    return { type: 'conditional', test, consequent, alternate };
+  }
+
+  private parseLogical(level: number): ExpressionNode {
+    const operators = [['??'], ['||'], ['&&']];
+    if (level >= operators.length) {
+      return this.parseBinary(0);
+    }
+
+    let left = this.parseLogical(level + 1);
+    let operator = this.matchAny(operators[level]);
+    while (operator) {
+      left = { type: 'logical', operator, left, right: this.parseLogical(level + 1) };
+      operator = this.matchAny(operators[level]);
+    }
+    return left;
+  }
+
+  private parseBinary(level: number): ExpressionNode {
+    if (level >= binaryPrecedence.length) {
+      return this.parseUnary();
+    }
+
+    let left = this.parseBinary(level + 1);
+    let operator = this.matchAny(binaryPrecedence[level]);
+    while (operator) {
+      left = { type: 'binary', operator, left, right: this.parseBinary(level + 1) };
+      operator = this.matchAny(binaryPrecedence[level]);
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const operator = this.matchAny(['!', '-', '+', 'typeof']);
+    if (operator) {
+      return { type: 'unary', operator, argument: this.parseUnary() };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+
+    while (true) {
+      if (this.match('.') || this.match('?.')) {
+        const token = this.next();
+        if (!token || token.type !== 'identifier') {
+          this.unexpected(token);
+        }
+        node = { type: 'member', object: node, property: { type: 'literal', value: token.value } };
+      } else if (this.match('[')) {
+        node = { type: 'member', object: node, property: this.parseExpression() };
+        this.expect(']');
+      } else if (this.match('(')) {
+        node = { type: 'call', callee: node, args: this.parseList(')') };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+    if (!token) {
+      this.unexpected(token);
+    }
+
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'identifier':
+        switch (token.value) {
+          case 'true':
+            return { type: 'literal', value: true };
+          case 'false':
+            return { type: 'literal', value: false };
+          case 'null':
+            return { type: 'literal', value: null };
+          case 'undefined':
+            return { type: 'literal', value: undefined };
+          default:
+            return { type: 'identifier', name: token.value };
+        }
+    }
+
+    switch (token.value) {
+      case '(': {
+        const node = this.parsePipeline();
+        this.expect(')');
+        return node;
+      }
+      case '[':
+        return { type: 'array', elements: this.parseList(']') };
+      case '{': {
+        const keys: string[] = [];
+        const elements: ExpressionNode[] = [];
+        while (!this.match('}')) {
+          const key = this.next();
+          if (!key || key.type === 'punctuator') {
+            this.unexpected(key);
+          }
+          this.expect(':');
+          keys.push(`${key.value}`);
+          elements.push(this.parseExpression());
+          if (!this.match(',')) {
+            this.expect('}');
+            break;
+          }
+        }
+        return { type: 'object', keys, elements };
+      }
+    }
+
+    this.unexpected(token);
+  }
+
+  private parseList(end: string): ExpressionNode[] {
+    const items: ExpressionNode[] = [];
+    while (!this.match(end)) {
+      items.push(this.parseExpression());
+      if (!this.match(',')) {
+        this.expect(end);
+        break;
+      }
+    }
+    return items;
+  }
+
+  private peek(): Token {
+    return this._tokens[this._position];
+  }
+
+  private next(): Token {
+    return this._tokens[this._position++];
+  }
+
+  private match(value: string): boolean {
+    const token = this.peek();
+    // identifiers can be operators (ex: in, typeof), strings and numbers can't
+    if (token && (token.type === 'punctuator' || token.type === 'identifier') && token.value === value) {
+      this._position++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchAny(values: string[]): string {
+    return values.find(value => this.match(value));
+  }
+
+  private expect(value: string) {
+    if (!this.match(value)) {
+      this.unexpected(this.peek());
+    }
+  }
+
+  private unexpected(token: Token = this.peek()): never {
+    throw new SyntaxError(
+      token
+        ? `Unexpected '${this._expression.substring(token.start, token.end)}' in expression: ${this._expression}`
+        : `Unexpected end of expression: ${this._expression}`
+    );
+  }
+}
+
+/**
+ * returns the value of a property, properties of null or undefined values are undefined
+ */
+function getProperty(object: any, property: any): any {
+  if (object === null || object === undefined || blockedProperties.includes(`${property}`)) {
+    return undefined;
+  }
+  return object[property];
+}
+
+/**
+ * evaluates a parsed expression
+ */
+function evaluate(node: ExpressionNode, scope: object, filters: { [name: string]: TemplateFilter }): any {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'identifier':
+      if (node.name === 'this') {
+        return scope;
+      }
+      return node.name in scope ? scope[node.name] : safeGlobals[node.name];
+    case 'member': {
+      const property = evaluate(node.property, scope, filters);
+      return getProperty(evaluate(node.object, scope, filters), property);
+    }
+    case 'call': {
+      let thisArg: any = scope;
+      let func: any;
+      if (node.callee.type === 'member') {
+        thisArg = evaluate(node.callee.object, scope, filters);
+        func = getProperty(thisArg, evaluate(node.callee.property, scope, filters));
+      } else {
+        func = evaluate(node.callee, scope, filters);
+      }
+      if (typeof func !== 'function' || func === Function) {
+        throw new TypeError('Expression is not a function');
+      }
+      return func.apply(
+        thisArg,
+        node.args.map(arg => evaluate(arg, scope, filters))
+      );
+    }
+    case 'unary': {
+      const argument = evaluate(node.argument, scope, filters);
+      switch (node.operator) {
+        case '!':
+          return !argument;
+        case '-':
+          return -argument;
+        case '+':
+          return +argument;
+        case 'typeof':
+          return typeof argument;
+      }
+      break;
+    }
+    case 'logical': {
+      const left = evaluate(node.left, scope, filters);
+      switch (node.operator) {
+        case '&&':
+          return left && evaluate(node.right, scope, filters);
+        case '||':
+          return left || evaluate(node.right, scope, filters);
+        case '??':
+          return left !== null && left !== undefined ? left : evaluate(node.right, scope, filters);
+      }
+      break;
+    }
+    case 'binary':
+      return evaluateBinary(node.operator, evaluate(node.left, scope, filters), evaluate(node.right, scope, filters));
+    case 'conditional':
+      return evaluate(node.test, scope, filters)
+        ? evaluate(node.consequent, scope, filters)
+        : evaluate(node.alternate, scope, filters);
+    case 'array':
+      return node.elements.map(element => evaluate(element, scope, filters));
+    case 'pipe': {
+      const filter = filters[node.name];
+      if (typeof filter !== 'function') {
+        throw new Error(`Unknown template filter '${node.name}'`);
+      }
+      return filter(evaluate(node.argument, scope, filters), ...node.args.map(arg => evaluate(arg, scope, filters)));
+    }
+    case 'object': {
+      const result = {};
+      node.keys.forEach((key, i) => (result[key] = evaluate(node.elements[i], scope, filters)));
+      return result;
+    }
+  }
+}
+
+/**
+ * applies a binary operator
+ */
+function evaluateBinary(operator: string, left: any, right: any): any {
+  switch (operator) {
+    case '==':
+      // tslint:disable-next-line: triple-equals
+      return left == right;
+    case '!=':
+      // tslint:disable-next-line: triple-equals
+      return left != right;
+    case '===':
+      return left === right;
+    case '!==':
+      return left !== right;
+    case '<':
+      return left < right;
+    case '>':
+      return left > right;
+    case '<=':
+      return left <= right;
+    case '>=':
+      return left >= right;
+    case 'in':
+      return right !== null && typeof right === 'object' && left in right;
+    case '+':
+      return left + right;
+    case '-':
+      return left - right;
+    case '*':
+      return left * right;
+    case '/':
+      return left / right;
+    case '%':
+      return left % right;
+  }
+}
+
+/**
+ * Evaluates a template expression without eval, so templates work under a Content-Security-Policy without 'unsafe-eval'.
+ * Supports property paths, indexing, comparison, arithmetic and logical operators, ternaries,
+ * array and object literals and calls to the functions of the context.
+ * Identifiers are resolved in the context, then in a few safe globals (ex: Math, JSON, Date).
+ * Values can be piped through filters (ex: `file.size | bytes`, `event.start.dateTime | date:'short'`)
+ *
+ * @export
+ * @param {string} expression
+ * @param {object} context
+ * @param {{ [name: string]: TemplateFilter }} [filters={}] filters available to pipes, by name
+ * @returns {*}
+ */
+export function evaluateExpression(
+  expression: string,
+  context: object,
+  filters: { [name: string]: TemplateFilter } = {}
+): any {
+  let node = parsedExpressions.get(expression);
+  if (!node) {
+    node = new ExpressionParser(expression).parse();
+    parsedExpressions.set(expression, node);
+  }
+  return evaluate(node, context || {}, filters);
+}
+
+/**
+ * Parses the bindings of a data-props attribute (ex: `@click: handleClick, personDetails: person`)
+ *
+ * @export
+ * @param {string} value
+ * @returns {PropertyBinding[]}
+ */
+export function parsePropertyBindings(value: string): PropertyBinding[] {
+  return new ExpressionParser(value).parseBindings();
+}
@@ -5,6 +5,14 @@
  * -------------------------------------------------------------------------------------------
  */
 
+import { evaluateExpression, parsePropertyBindings } from './TemplateExpression';
+
+/**
+ * A filter formatting a value piped to it in a template (ex: {{ name | uppercase }}).
+ * It receives the value followed by the arguments of the pipe (ex: {{ size | bytes:1 }})
+ */
+export type TemplateFilter = (value: any, ...args: any[]) => any;
+
 /**
  * Helper class for Template Instantiation
  *
@@ -13,12 +21,14 @@
  */
 export class TemplateHelper {
   /**
-   * Render a template into a HTMLElement with the appropriate data context
+   * Render a template into a HTMLElement with the appropriate data context.
+   * Expressions are interpreted without eval, so templates work under a strict Content-Security-Policy
    *
    * Ex:
    * ```
    * <template>
    *  <div>{{myObj.someStr}}</div>
+   *  <div>{{myObj.someStr | uppercase}}</div>
    *  <div data-for="key in myObj.list">
    *    <div>{{key.anotherStr}}</div>
    *  </div>
@@ -30,28 +40,40 @@ export class TemplateHelper {
    * @param context the data context to be applied
    */
   public static renderTemplate(root: HTMLElement, template: HTMLTemplateElement, context: object) {
-    // inherit context from parent template
-    if ((template as any).$parentTemplateContext) {
-      context = { ...context, $parent: (template as any).$parentTemplateContext };
-    }
+    const rendered = this.createContent(root, template, context);
 
-    let rendered: Node;
-
-    if (template.content && template.content.childNodes.length) {
-      const templateContent = template.content.cloneNode(true);
-      rendered = this.renderNode(templateContent, root, context);
-    } else if (template.childNodes.length) {
-      const div = document.createElement('div');
-      // tslint:disable-next-line: prefer-for-of
-      for (let i = 0; i < template.childNodes.length; i++) {
-        div.appendChild(this.simpleCloneNode(template.childNodes[i]));
-      }
-      rendered = this.renderNode(div, root, context);
+    if (rendered) {
+      root.appendChild(rendered);
     }
+  }
 
+  /**
+   * Render a template again into a HTMLElement where it was rendered with a previous data context.
+   * The existing DOM is patched instead of being replaced: elements are kept and only the text,
+   * attributes and properties that changed are updated, so focus, scroll position and state are preserved.
+   * Elements rendered by data-for are matched by their data-key when they have one
+   *
+   * Ex:
+   * ```
+   * <div data-for="task in tasks" data-key="task.id">{{task.title}}</div>
+   * ```
+   *
+   * @static
+   * @param {HTMLElement} root the element where the template was rendered
+   * @param {HTMLTemplateElement} template the template to render
+   * @param {object} context the new data context
+   * @memberof TemplateHelper
+   */
+  public static updateTemplate(root: HTMLElement, template: HTMLTemplateElement, context: object) {
+    const rendered = this.createContent(root, template, context);
+
+    // the new content is rendered in a detached element with the same structure as root
+    const container = document.createElement('div');
     if (rendered) {
-      root.appendChild(rendered);
+      container.appendChild(rendered);
     }
+
+    this.patchChildren(root, container);
   }
 
   /**
@@ -69,7 +91,7 @@ export class TemplateHelper {
     const start = this.escapeRegex(this._startExpression);
     const end = this.escapeRegex(this._endExpression);
 
-    this._expression = new RegExp(`${start}\\s*([$\\w\\.,'"\\s()\\[\\]]+)\\s*${end}`, 'g');
+    this._expression = new RegExp(`${start}\\s*([\\s\\S]+?)\\s*${end}`, 'g');
   }
 
   /**
@@ -84,7 +106,54 @@ export class TemplateHelper {
     return this._globalContext;
   }
 
+  /**
+   * Filters available to the pipes of all templates, by name
+   *
+   * @readonly
+   * @static
+   * @type {{ [name: string]: TemplateFilter }}
+   * @memberof TemplateHelper
+   */
+  public static get filters(): { [name: string]: TemplateFilter } {
+    return this._filters;
+  }
+
+  /**
+   * Registers a filter that templates can pipe values to.
+   * A filter registered with the name of an existing filter replaces it
+   *
+   * Ex:
+   * ```
+   * TemplateHelper.registerFilter('initials', name => name.split(' ').map(n => n[0]).join(''));
+   * <div>{{ person.displayName | initials }}</div>
+   * ```
+   *
+   * @static
+   * @param {string} name name used in the pipes
+   * @param {TemplateFilter} filter
+   * @memberof TemplateHelper
+   */
+  public static registerFilter(name: string, filter: TemplateFilter) {
+    this._filters[name] = filter;
+  }
+
+  /**
+   * Removes a filter
+   *
+   * @static
+   * @param {string} name
+   * @memberof TemplateHelper
+   */
+  public static unregisterFilter(name: string) {
+    delete this._filters[name];
+  }
+
   private static _globalContext = {};
+  private static _filters: { [name: string]: TemplateFilter } = {
+    json: value => JSON.stringify(value),
+    lowercase: value => (value === null || value === undefined ? value : `${value}`.toLowerCase()),
+    uppercase: value => (value === null || value === undefined ? value : `${value}`.toUpperCase())
+  };
 
   private static get expression() {
     if (!this._expression) {
@@ -122,6 +191,151 @@ export class TemplateHelper {
     return clone;
   }
 
+  private static createContent(root: HTMLElement, template: HTMLTemplateElement, context: object): Node {
+    // inherit context from parent template
+    if ((template as any).$parentTemplateContext) {
+      context = { ...context, $parent: (template as any).$parentTemplateContext };
+    }
+
+    let rendered: Node;
+
+    if (template.content && template.content.childNodes.length) {
+      const templateContent = template.content.cloneNode(true);
+      rendered = this.renderNode(templateContent, root, context);
+    } else if (template.childNodes.length) {
+      const div = document.createElement('div');
+      // tslint:disable-next-line: prefer-for-of
+      for (let i = 0; i < template.childNodes.length; i++) {
+        div.appendChild(this.simpleCloneNode(template.childNodes[i]));
+      }
+      rendered = this.renderNode(div, root, context);
+    }
+
+    return rendered;
+  }
+
+  // updates the children of target to match the children of source,
+  // reusing the children of target with the same key, or the same tag when they have no key
+  private static patchChildren(target: Node, source: Node) {
+    const keyedChildren: Map<string, Node> = new Map();
+    const unkeyedChildren: Node[] = [];
+    // tslint:disable-next-line: prefer-for-of
+    for (let i = 0; i < target.childNodes.length; i++) {
+      const child = target.childNodes[i];
+      const key = this.getKey(child);
+      if (key === null) {
+        unkeyedChildren.push(child);
+      } else if (!keyedChildren.has(key)) {
+        keyedChildren.set(key, child);
+      }
+    }
+
+    let index = 0;
+    let unkeyedIndex = 0;
+    for (const sourceChild of Array.from(source.childNodes)) {
+      const key = this.getKey(sourceChild);
+      let match: Node = null;
+
+      if (key !== null) {
+        match = keyedChildren.get(key);
+        if (match && match.nodeName === sourceChild.nodeName) {
+          keyedChildren.delete(key);
+        } else {
+          match = null;
+        }
+      } else {
+        for (let i = unkeyedIndex; i < unkeyedChildren.length; i++) {
+          if (unkeyedChildren[i].nodeName === sourceChild.nodeName) {
+            match = unkeyedChildren[i];
+            unkeyedIndex = i + 1;
+            break;
+          }
+        }
+      }
+
+      const reference = target.childNodes[index] || null;
+      if (match) {
+        this.patchNode(match, sourceChild);
+        if (match !== reference) {
+          target.insertBefore(match, reference);
+        }
+      } else {
+        target.insertBefore(sourceChild, reference);
+      }
+      index++;
+    }
+
+    // remove the children that were not reused
+    while (target.childNodes.length > index) {
+      target.removeChild(target.lastChild);
+    }
+  }
+
+  private static patchNode(target: Node, source: Node) {
+    if (target.nodeType !== Node.ELEMENT_NODE) {
+      if (target.nodeValue !== source.nodeValue) {
+        target.nodeValue = source.nodeValue;
+      }
+      return;
+    }
+
+    const targetElement = target as HTMLElement;
+    const sourceElement = source as HTMLElement;
+
+    for (const attribute of Array.from(targetElement.attributes)) {
+      if (!sourceElement.hasAttribute(attribute.name)) {
+        targetElement.removeAttribute(attribute.name);
+      }
+    }
+    for (const attribute of Array.from(sourceElement.attributes)) {
+      if (targetElement.getAttribute(attribute.name) !== attribute.value) {
+        targetElement.setAttribute(attribute.name, attribute.value);
+      }
+    }
+
+    const props = (sourceElement as any).$templateProps || {};
+    for (const key of Object.keys(props)) {
+      if (targetElement[key] !== props[key]) {
+        targetElement[key] = props[key];
+      }
+    }
+    (targetElement as any).$templateProps = props;
+    this.setEventHandlers(targetElement, (sourceElement as any).$templateEvents || {});
+
+    if (targetElement.nodeName === 'TEMPLATE') {
+      // nested templates are rendered by their component, only their context changes
+      (targetElement as any).$parentTemplateContext = (sourceElement as any).$parentTemplateContext;
+      return;
+    }
+
+    this.patchChildren(targetElement, sourceElement);
+  }
+
+  // returns the data-key of an element rendered by data-for, or null
+  private static getKey(node: Node): string {
+    const element = node as HTMLElement;
+    return element.nodeType === Node.ELEMENT_NODE && element.hasAttribute('data-key')
+      ? element.getAttribute('data-key')
+      : null;
+  }
+
+  // the listeners added to an element call its current handlers,
+  // so handlers can be replaced when the template is patched
+  private static setEventHandlers(element: HTMLElement, handlers: { [event: string]: EventListener }) {
+    const currentHandlers = (element as any).$templateEvents || {};
+    for (const event of Object.keys(handlers)) {
+      if (!currentHandlers[event]) {
+        element.addEventListener(event, e => {
+          const handler = (element as any).$templateEvents[event];
+          if (handler) {
+            handler(e);
+          }
+        });
+      }
+    }
+    (element as any).$templateEvents = handlers;
+  }
+
   private static expandExpressionsAsString(str: string, context: object) {
     return str.replace(this.expression, (match, p1) => {
       const value = this.evalInContext(p1 || this.trimExpression(match), context);
@@ -155,23 +369,31 @@ export class TemplateHelper {
         const attribute = nodeElement.attributes[i];
 
         if (attribute.name === 'data-props') {
-          const propsValue = this.trimExpression(attribute.value);
-          for (const prop of propsValue.split(',')) {
-            const keyValue = prop.trim().split(':');
-            if (keyValue.length === 2) {
-              const key = keyValue[0].trim();
-              const value = this.evalInContext(keyValue[1].trim(), context);
-
-              if (key.startsWith('@')) {
-                // event
-                if (typeof value === 'function') {
-                  nodeElement.addEventListener(key.substring(1), e => value(e, context, root));
-                }
-              } else {
-                nodeElement[key] = value;
+          let bindings = [];
+          try {
+            bindings = parsePropertyBindings(this.trimExpression(attribute.value));
+            // tslint:disable-next-line: no-empty
+          } catch (e) {}
+
+          // the props and events are kept on the element so they can be patched
+          const props = {};
+          const events = {};
+          for (const binding of bindings) {
+            const key = binding.name;
+            const value = this.evalInContext(binding.expression, context);
+
+            if (key.startsWith('@')) {
+              // event
+              if (typeof value === 'function') {
+                events[key.substring(1)] = e => value(e, context, root);
               }
+            } else {
+              nodeElement[key] = value;
+              props[key] = value;
             }
           }
+          (nodeElement as any).$templateProps = props;
+          this.setEventHandlers(nodeElement, events);
         } else {
           nodeElement.setAttribute(attribute.name, this.expandExpressionsAsString(attribute.value, context));
         }
@@ -241,11 +463,11 @@ export class TemplateHelper {
       const childElement = loopChildren[i] as HTMLElement;
 
       const loopExpression = childElement.dataset.for;
-      const loopTokens = this.trimExpression(loopExpression).split(/\s(in|of)\s/i);
+      // the list can be any expression, only the first in/of separates it from the item name
+      const loopTokens = /^([$\w]+)\s+(?:in|of)\s+([\s\S]+)$/i.exec(this.trimExpression(loopExpression));
 
-      if (loopTokens.length === 3) {
-        // don't really care what's in the middle at this point
-        const itemName = loopTokens[0].trim();
+      if (loopTokens) {
+        const itemName = loopTokens[1];
         const listKey = loopTokens[2].trim();
 
         const list = this.evalInContext(listKey, context);
@@ -262,7 +484,12 @@ export class TemplateHelper {
             };
             newContext[itemName] = list[j];
 
-            const clone = childElement.cloneNode(true);
+            const clone = childElement.cloneNode(true) as HTMLElement;
+            if (clone.hasAttribute('data-key')) {
+              // the key identifies the item when the template is patched
+              const key = this.evalInContext(this.trimExpression(clone.getAttribute('data-key')), newContext);
+              clone.setAttribute('data-key', `${key}`);
+            }
             this.renderNode(clone, root, newContext);
             nodeElement.insertBefore(clone, childElement);
           }
@@ -276,15 +503,14 @@ export class TemplateHelper {
 
   private static evalBoolInContext(expression, context) {
     context = { ...context, ...this.globalContext };
-    return new Function('with(this) { return !!(' + expression + ')}').call(context);
+    return !!evaluateExpression(expression, context, this._filters);
   }
 
   private static evalInContext(expression, context) {
     context = { ...context, ...this.globalContext };
-    const func = new Function('with(this) { return ' + expression + ';}');
     let result;
     try {
-      result = func.call(context);
+      result = evaluateExpression(expression, context, this._filters);
       // tslint:disable-next-line: no-empty
     } catch (e) {}
     return result;
@@ -14,3 +14,65 @@ export function delay(ms: number): Promise<void> {
     setTimeout(resolve, ms);
   });
 }
+
+/**
+ * creates the error thrown when an operation is aborted with an AbortSignal
+ */
+export function createAbortError(): Error {
+  return typeof DOMException !== 'undefined'
+    ? new DOMException('The operation was aborted.', 'AbortError')
+    : Object.assign(new Error('The operation was aborted.'), { name: 'AbortError' });
+}
+
+/**
+ * converts request headers (a Headers instance, an array of pairs or an object) to a plain object
+ *
+ * @param {HeadersInit} headers
+ */
+export function getHeaders(headers: HeadersInit): { [header: string]: string } {
+  const result = {};
+  if (!headers) {
+    return result;
+  }
+
+  if (typeof Headers !== 'undefined' && headers instanceof Headers) {
+    headers.forEach((value, name) => (result[name] = value));
+  } else if (Array.isArray(headers)) {
+    for (const [name, value] of headers) {
+      result[name] = value;
+    }
+  } else {
+    Object.assign(result, headers);
+  }
+  return result;
+}
+
+/**
+ * creates a fetch Response from a $batch sub response.
+ * Binary content (ex: photos) is base64 encoded in $batch responses and is decoded
+ *
+ * @param {*} batchResponse sub response with a status, headers and body
+ */
+export function createResponseFromBatch(batchResponse: any): Response {
+  const headers: { [header: string]: string } = batchResponse.headers || {};
+  const contentTypeHeader = Object.keys(headers).find(h => h.toLowerCase() === 'content-type');
+  const contentType = contentTypeHeader ? headers[contentTypeHeader] : '';
+
+  let body: BodyInit = null;
+  if (batchResponse.status !== 204 && batchResponse.body !== undefined && batchResponse.body !== null) {
+    if (typeof batchResponse.body !== 'string') {
+      body = JSON.stringify(batchResponse.body);
+    } else if (contentType && !contentType.includes('json') && !contentType.startsWith('text')) {
+      const decoded = atob(batchResponse.body);
+      const bytes = new Uint8Array(decoded.length);
+      for (let i = 0; i < decoded.length; i++) {
+        bytes[i] = decoded.charCodeAt(i);
+      }
+      body = bytes;
+    } else {
+      body = batchResponse.body;
+    }
+  }
+
+  return new Response(body, { status: batchResponse.status, headers });
+}
@@ -8,3 +8,21 @@
 export const REDIRECT_URI = 'msal://redirect';
 export const COMMON_AUTHORITY_URL = 'https://login.microsoftonline.com/common/';
 export const CACHE_LOCATION = './data/cache.json';
+/**
+ * name of the file of the EncryptedCachePlugin, in the user data directory of the app
+ */
+export const CACHE_FILE_NAME = 'mgt-token-cache.json';
+/**
+ * default time (in ms) the EncryptedCachePlugin waits for the lock of the cache file
+ */
+export const CACHE_LOCK_TIMEOUT = 10000;
+
+/**
+ * address the LoopbackAuthCodeListener listens on
+ */
+export const LOOPBACK_HOST = '127.0.0.1';
+
+/**
+ * default time (in ms) the LoopbackAuthCodeListener waits for the auth code response
+ */
+export const LOOPBACK_TIMEOUT = 5 * 60 * 1000;
@@ -12,14 +12,23 @@ import {
   AuthorizationCodeRequest,
   AuthorizationUrlRequest,
   Configuration,
+  CryptoProvider,
+  DeviceCodeRequest,
   ICachePlugin,
+  INetworkModule,
   LogLevel,
   PublicClientApplication
 } from '@azure/msal-node';
 import { AuthenticationProviderOptions } from '@microsoft/microsoft-graph-client/lib/es/IAuthenticationProviderOptions';
-import { BrowserWindow, ipcMain } from 'electron';
+import { BrowserWindow, ipcMain, shell } from 'electron';
+import { AuthCodeListener } from './AuthCodeListener';
 import { CustomFileProtocolListener } from './CustomFileProtocol';
+import { LoopbackAuthCodeListener } from './LoopbackAuthCodeListener';
 import { REDIRECT_URI, COMMON_AUTHORITY_URL } from './Constants';
+import { EncryptedCachePlugin, EncryptedCachePluginOptions } from './EncryptedCachePlugin';
+import { DeviceCodeInfo } from '../Shared/DeviceCodeInfo';
+
+export { DeviceCodeInfo };
 /**
  * base config for MSAL authentication
  *
@@ -65,6 +74,82 @@ export interface MsalElectronConfig {
    * @memberof MsalElectronConfig
    */
   cachePlugin?: ICachePlugin;
+
+  /**
+   * Options of the EncryptedCachePlugin used to persist the token cache, ignored when cachePlugin is set
+   *
+   * @type {EncryptedCachePluginOptions}
+   * @memberof MsalElectronConfig
+   */
+  cacheOptions?: EncryptedCachePluginOptions;
+
+  /**
+   * Listener receiving the auth code, the custom file protocol (msal://redirect) by default
+   *
+   * @type {RedirectListenerType}
+   * @memberof MsalElectronConfig
+   */
+  redirectListener?: RedirectListenerType;
+
+  /**
+   * How users sign in, interactively (default) or with a device code
+   *
+   * @type {ElectronLoginType}
+   * @memberof MsalElectronConfig
+   */
+  loginType?: ElectronLoginType;
+
+  /**
+   * Hosts of the authorities that are not Azure AD authorities (ex: 'localhost:8080' for a stand-in authority)
+   *
+   * @type {string[]}
+   * @memberof MsalElectronConfig
+   */
+  knownAuthorities?: string[];
+
+  /**
+   * Network module used by MSAL to call the authority, defaults to the https module of MSAL
+   *
+   * @type {INetworkModule}
+   * @memberof MsalElectronConfig
+   */
+  networkClient?: INetworkModule;
+}
+
+/**
+ * How users sign in
+ *
+ * @export
+ * @enum {string}
+ */
+export enum ElectronLoginType {
+  /**
+   * Users sign in in an auth window or the system browser
+   */
+  Interactive = 'interactive',
+
+  /**
+   * Users sign in on another device with a code displayed by the app
+   */
+  DeviceCode = 'deviceCode'
+}
+
+/**
+ * Listeners receiving the auth code
+ *
+ * @export
+ * @enum {string}
+ */
+export enum RedirectListenerType {
+  /**
+   * Signs in in an auth window, redirecting to msal://redirect
+   */
+  CustomFileProtocol = 'customFileProtocol',
+
+  /**
+   * Signs in in the system browser, redirecting to a server on http://127.0.0.1 with a random port
+   */
+  Loopback = 'loopback'
 }
 
 /**
@@ -160,10 +245,54 @@ export class ElectronAuthenticator {
    * Listener that will listen for auth code in response
    *
    * @private
-   * @type {CustomFileProtocolListener}
+   * @type {AuthCodeListener}
+   * @memberof ElectronAuthenticator
+   */
+  private authCodeListener: AuthCodeListener;
+
+  /**
+   * Type of the listener receiving the auth code
+   *
+   * @private
+   * @type {RedirectListenerType}
    * @memberof ElectronAuthenticator
    */
-  private authCodeListener: CustomFileProtocolListener;
+  private redirectListener: RedirectListenerType;
+
+  /**
+   * Generates the PKCE codes and states of the auth code requests
+   *
+   * @private
+   * @type {CryptoProvider}
+   * @memberof ElectronAuthenticator
+   */
+  private cryptoProvider: CryptoProvider = new CryptoProvider();
+
+  /**
+   * How users sign in
+   *
+   * @private
+   * @type {ElectronLoginType}
+   * @memberof ElectronAuthenticator
+   */
+  private loginType: ElectronLoginType;
+
+  /**
+   * Device code request in progress, if any
+   *
+   * @private
+   * @type {DeviceCodeRequest}
+   * @memberof ElectronAuthenticator
+   */
+  private deviceCodeRequest: DeviceCodeRequest;
+
+  /**
+   * Handlers of the device code event
+   *
+   * @private
+   * @memberof ElectronAuthenticator
+   */
+  private deviceCodeHandlers: ((info: DeviceCodeInfo) => void)[] = [];
 
   /**
    * Instance of the authenticator
@@ -184,6 +313,8 @@ export class ElectronAuthenticator {
     this.setConfig(config);
     this.account = null;
     this.mainWindow = config.mainWindow;
+    this.redirectListener = config.redirectListener || RedirectListenerType.CustomFileProtocol;
+    this.loginType = config.loginType || ElectronLoginType.Interactive;
     this.setRequestObjects(config.scopes);
     this.setupProvider();
   }
@@ -211,6 +342,38 @@ export class ElectronAuthenticator {
     return this.authInstance;
   }
 
+  /**
+   * Add a handler called with the device code to display when users sign in with ElectronLoginType.DeviceCode.
+   * The code is also sent to the ElectronProvider
+   *
+   * @param {(info: DeviceCodeInfo) => void} handler
+   * @memberof ElectronAuthenticator
+   */
+  public onDeviceCode(handler: (info: DeviceCodeInfo) => void) {
+    this.deviceCodeHandlers.push(handler);
+  }
+
+  /**
+   * Remove a handler of the device code
+   *
+   * @param {(info: DeviceCodeInfo) => void} handler
+   * @memberof ElectronAuthenticator
+   */
+  public removeDeviceCodeListener(handler: (info: DeviceCodeInfo) => void) {
+    this.deviceCodeHandlers = this.deviceCodeHandlers.filter(h => h !== handler);
+  }
+
+  /**
+   * Stops waiting for users to sign in with the device code, the sign in fails
+   *
+   * @memberof ElectronAuthenticator
+   */
+  public cancelLogin() {
+    if (this.deviceCodeRequest) {
+      this.deviceCodeRequest.cancel = true;
+    }
+  }
+
   /**
    * Setting up config for MSAL auth
    *
@@ -219,13 +382,17 @@ export class ElectronAuthenticator {
    * @memberof ElectronAuthenticator
    */
   private async setConfig(config: MsalElectronConfig) {
+    const cachePlugin =
+      config.cachePlugin || (config.cacheOptions ? new EncryptedCachePlugin(config.cacheOptions) : null);
     this.ms_config = {
       auth: {
         clientId: config.clientId,
-        authority: config.authority ? config.authority : COMMON_AUTHORITY_URL
+        authority: config.authority ? config.authority : COMMON_AUTHORITY_URL,
+        knownAuthorities: config.knownAuthorities
       },
-      cache: config.cachePlugin ? { cachePlugin: config.cachePlugin } : null,
+      cache: cachePlugin ? { cachePlugin } : null,
       system: {
+        networkClient: config.networkClient,
         loggerOptions: {
           loggerCallback(loglevel, message, containsPii) {},
           piiLoggingEnabled: false,
@@ -281,7 +448,13 @@ export class ElectronAuthenticator {
     });
 
     ipcMain.handle('login', async () => {
-      const account = await this.login();
+      let account: AccountInfo;
+      try {
+        account = await this.login();
+      } catch (e) {
+        this.mainWindow.webContents.send('mgtAuthState', AuthState.LOGGED_OUT);
+        throw e;
+      }
       if (account) {
         this.mainWindow.webContents.send('mgtAuthState', AuthState.LOGGED_IN);
       } else {
@@ -297,6 +470,10 @@ export class ElectronAuthenticator {
       }
     });
 
+    ipcMain.handle('cancelLogin', () => {
+      this.cancelLogin();
+    });
+
     ipcMain.handle('logout', async () => {
       await this.logout();
       this.mainWindow.webContents.send('mgtAuthState', AuthState.LOGGED_OUT);
@@ -352,7 +529,10 @@ export class ElectronAuthenticator {
    * @memberof ElectronAuthenticator
    */
   protected async login() {
-    const authResponse = await this.getTokenInteractive(promptType.SELECT_ACCOUNT);
+    const authResponse =
+      this.loginType === ElectronLoginType.DeviceCode
+        ? await this.getTokenByDeviceCode()
+        : await this.getTokenInteractive(promptType.SELECT_ACCOUNT);
     return this.setAccountFromResponse(authResponse);
   }
 
@@ -397,27 +577,81 @@ export class ElectronAuthenticator {
    * @memberof ElectronAuthenticator
    */
   protected async getTokenInteractive(prompt_type: promptType, scopes?): Promise<AuthenticationResult> {
-    let authResult;
     const requestScopes = scopes ? scopes : this.authCodeUrlParams.scopes;
-    const authCodeUrlParams = {
+    const pkceCodes = await this.cryptoProvider.generatePkceCodes();
+    const state = this.cryptoProvider.createNewGuid();
+    const authCodeUrlParams: AuthorizationUrlRequest = {
       ...this.authCodeUrlParams,
       scopes: requestScopes,
-      prompt: prompt_type.toString()
+      prompt: prompt_type.toString(),
+      state,
+      codeChallenge: pkceCodes.challenge,
+      codeChallengeMethod: 'S256'
     };
-    const authCodeUrl = await this.clientApplication.getAuthCodeUrl(authCodeUrlParams);
-    this.authCodeListener = new CustomFileProtocolListener('msal');
-    this.authCodeListener.start();
-    const authCode = await this.listenForAuthCode(authCodeUrl, prompt_type);
-    authResult = await this.clientApplication
+
+    let authCode: string;
+    if (this.redirectListener === RedirectListenerType.Loopback) {
+      const listener = new LoopbackAuthCodeListener();
+      this.authCodeListener = listener;
+      listener.start();
+      try {
+        authCodeUrlParams.redirectUri = await listener.getRedirectUri();
+        const authCodeUrl = await this.clientApplication.getAuthCodeUrl(authCodeUrlParams);
+        // wait for both, so the response doesn't reject unhandled when the browser can't be opened
+        [authCode] = await Promise.all([listener.waitForAuthCode(state), shell.openExternal(authCodeUrl)]);
+      } finally {
+        listener.close();
+      }
+    } else {
+      const authCodeUrl = await this.clientApplication.getAuthCodeUrl(authCodeUrlParams);
+      this.authCodeListener = new CustomFileProtocolListener('msal');
+      this.authCodeListener.start();
+      authCode = await this.listenForAuthCode(authCodeUrl, prompt_type);
+    }
+
+    return await this.clientApplication
       .acquireTokenByCode({
         ...this.authCodeRequest,
+        redirectUri: authCodeUrlParams.redirectUri,
         scopes: requestScopes,
-        code: authCode
+        code: authCode,
+        codeVerifier: pkceCodes.verifier
       })
       .catch((e: AuthError) => {
         throw e;
       });
-    return authResult;
+  }
+
+  /**
+   * Get token with a device code, polling until users sign in on another device,
+   * the code expires or the login is cancelled
+   *
+   * @protected
+   * @param {*} [scopes]
+   * @return {*}  {Promise<AuthenticationResult>}
+   * @memberof ElectronAuthenticator
+   */
+  protected async getTokenByDeviceCode(scopes?): Promise<AuthenticationResult> {
+    const request: DeviceCodeRequest = {
+      scopes: scopes ? scopes : this.authCodeUrlParams.scopes,
+      deviceCodeCallback: response => {
+        const info: DeviceCodeInfo = {
+          expiresIn: response.expiresIn,
+          message: response.message,
+          userCode: response.userCode,
+          verificationUri: response.verificationUri
+        };
+        this.mainWindow.webContents.send('mgtDeviceCode', info);
+        this.deviceCodeHandlers.forEach(handler => handler(info));
+      }
+    };
+
+    this.deviceCodeRequest = request;
+    try {
+      return await this.clientApplication.acquireTokenByDeviceCode(request);
+    } finally {
+      this.deviceCodeRequest = null;
+    }
   }
 
   /**
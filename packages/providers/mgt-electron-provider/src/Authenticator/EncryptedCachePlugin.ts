@@ -0,0 +1,465 @@
+/**
+ * -------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation.  All Rights Reserved.  Licensed under the MIT License.
+ * See License in the project root for license information.
+ * -------------------------------------------------------------------------------------------
+ */
+
+import { ICachePlugin, TokenCacheContext } from '@azure/msal-node';
+import * as crypto from 'crypto';
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CACHE_FILE_NAME, CACHE_LOCK_TIMEOUT } from './Constants';
+
+/**
+ * Store keeping the secret the token cache encryption key is derived from,
+ * ex: the keychain of the OS through keytar
+ *
+ * @export
+ * @interface SecretStore
+ */
+export interface SecretStore {
+  /**
+   * Returns the stored secret, or null when no secret was stored yet
+   *
+   * @returns {Promise<string>}
+   * @memberof SecretStore
+   */
+  getSecret(): Promise<string>;
+
+  /**
+   * Stores the secret
+   *
+   * @param {string} secret
+   * @returns {Promise<void>}
+   * @memberof SecretStore
+   */
+  setSecret(secret: string): Promise<void>;
+}
+
+/**
+ * Options of the EncryptedCachePlugin
+ *
+ * @export
+ * @interface EncryptedCachePluginOptions
+ */
+export interface EncryptedCachePluginOptions {
+  /**
+   * Secret the encryption key is derived from, supplied by the app.
+   * Required when no secretStore is set
+   *
+   * @type {(string | Buffer)}
+   * @memberof EncryptedCachePluginOptions
+   */
+  key?: string | Buffer;
+
+  /**
+   * Store of the secret the encryption key is derived from, used when no key is set.
+   * A random secret is generated and stored the first time the cache is written
+   *
+   * @type {SecretStore}
+   * @memberof EncryptedCachePluginOptions
+   */
+  secretStore?: SecretStore;
+
+  /**
+   * Path of the cache file, defaults to a file in the user data directory of the app
+   *
+   * @type {string}
+   * @memberof EncryptedCachePluginOptions
+   */
+  cacheLocation?: string;
+
+  /**
+   * Time (in ms) to wait for another process to release the cache file,
+   * locks older than this are considered abandoned. Defaults to 10 seconds
+   *
+   * @type {number}
+   * @memberof EncryptedCachePluginOptions
+   */
+  lockTimeout?: number;
+}
+
+/**
+ * Content of the cache file
+ *
+ * @interface EncryptedCacheFile
+ */
+interface EncryptedCacheFile {
+  /**
+   * version of the file format
+   */
+  version: number;
+
+  /**
+   * salt of the key derivation, base64
+   */
+  salt: string;
+
+  /**
+   * initialization vector, base64
+   */
+  iv: string;
+
+  /**
+   * authentication tag, base64
+   */
+  tag: string;
+
+  /**
+   * encrypted token cache, base64
+   */
+  data: string;
+}
+
+/**
+ * version of the cache file format written by the plugin
+ */
+const CACHE_FILE_VERSION = 1;
+
+/**
+ * cipher used to encrypt the token cache
+ */
+const CIPHER_ALGORITHM = 'aes-256-gcm';
+
+/**
+ * length of the encryption key, in bytes
+ */
+const KEY_LENGTH = 32;
+
+/**
+ * length of the salt of the key derivation, in bytes
+ */
+const SALT_LENGTH = 16;
+
+/**
+ * length of the initialization vector, in bytes
+ */
+const IV_LENGTH = 12;
+
+/**
+ * time (in ms) between two attempts to lock the cache file
+ */
+const LOCK_RETRY_DELAY = 100;
+
+/**
+ * Cache plugin persisting the MSAL token cache to disk, encrypted with AES-256-GCM.
+ * The cache file is written atomically and locked while MSAL accesses the cache,
+ * so several instances of the app can share it.
+ *
+ * @export
+ * @class EncryptedCachePlugin
+ * @implements {ICachePlugin}
+ */
+export class EncryptedCachePlugin implements ICachePlugin {
+  private options: EncryptedCachePluginOptions;
+
+  /**
+   * salt of the key derivation, kept with the file
+   *
+   * @private
+   * @type {Buffer}
+   * @memberof EncryptedCachePlugin
+   */
+  private salt: Buffer;
+
+  /**
+   * encryption key derived for the salt
+   *
+   * @private
+   * @type {Buffer}
+   * @memberof EncryptedCachePlugin
+   */
+  private key: Buffer;
+
+  /**
+   * resolves when the cache access of this process in progress completes
+   *
+   * @private
+   * @type {Promise<void>}
+   * @memberof EncryptedCachePlugin
+   */
+  private accessQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * releases the lock, by cache access holding it
+   *
+   * @private
+   * @type {WeakMap<TokenCacheContext, () => Promise<void>>}
+   * @memberof EncryptedCachePlugin
+   */
+  private locks: WeakMap<TokenCacheContext, () => Promise<void>> = new WeakMap();
+
+  /**
+   * Creates an instance of EncryptedCachePlugin.
+   * @param {EncryptedCachePluginOptions} options
+   * @memberof EncryptedCachePlugin
+   */
+  constructor(options: EncryptedCachePluginOptions) {
+    if (!options || (!options.key && !options.secretStore)) {
+      throw new Error('EncryptedCachePlugin requires a key or a secretStore');
+    }
+    this.options = options;
+  }
+
+  /**
+   * Path of the cache file
+   *
+   * @readonly
+   * @type {string}
+   * @memberof EncryptedCachePlugin
+   */
+  public get cacheLocation(): string {
+    return this.options.cacheLocation || path.join(app.getPath('userData'), CACHE_FILE_NAME);
+  }
+
+  /**
+   * Locks the cache file and reads the tokens from it, if it exists.
+   * The lock is released by afterCacheAccess
+   *
+   * @param {TokenCacheContext} cacheContext
+   * @returns {Promise<void>}
+   * @memberof EncryptedCachePlugin
+   */
+  public async beforeCacheAccess(cacheContext: TokenCacheContext): Promise<void> {
+    await this.lock(cacheContext);
+    try {
+      const content = await this.readCacheFile();
+      if (content) {
+        cacheContext.tokenCache.deserialize(content);
+      }
+    } catch (e) {
+      await this.unlock(cacheContext);
+      throw e;
+    }
+  }
+
+  /**
+   * Writes the tokens to the cache file if they changed, and releases the lock.
+   * Nothing is written when the access doesn't hold the lock (ex: beforeCacheAccess failed)
+   *
+   * @param {TokenCacheContext} cacheContext
+   * @returns {Promise<void>}
+   * @memberof EncryptedCachePlugin
+   */
+  public async afterCacheAccess(cacheContext: TokenCacheContext): Promise<void> {
+    if (!this.locks.has(cacheContext)) {
+      return;
+    }
+
+    try {
+      if (cacheContext.cacheHasChanged) {
+        await this.writeCacheFile(cacheContext.tokenCache.serialize());
+      }
+    } finally {
+      await this.unlock(cacheContext);
+    }
+  }
+
+  /**
+   * Reads and decrypts the cache file, returns null when there is no cache
+   * or when it can't be decrypted (ex: the key changed)
+   *
+   * @private
+   * @returns {Promise<string>}
+   * @memberof EncryptedCachePlugin
+   */
+  private async readCacheFile(): Promise<string> {
+    let file: EncryptedCacheFile;
+    try {
+      file = JSON.parse(await fs.promises.readFile(this.cacheLocation, 'utf-8'));
+    } catch (e) {
+      if (e.code !== 'ENOENT') {
+        // tslint:disable-next-line: no-console
+        console.warn('Unable to read the token cache, it will be overwritten', e);
+      }
+      return null;
+    }
+
+    try {
+      if (file.version !== CACHE_FILE_VERSION) {
+        throw new Error(`Unsupported token cache version ${file.version}`);
+      }
+      const key = await this.getKey(Buffer.from(file.salt, 'base64'));
+      const decipher = crypto.createDecipheriv(CIPHER_ALGORITHM, key, Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      return Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]).toString('utf-8');
+    } catch (e) {
+      // tslint:disable-next-line: no-console
+      console.warn('Unable to decrypt the token cache, it will be overwritten', e);
+      return null;
+    }
+  }
+
+  /**
+   * Encrypts the tokens and replaces the cache file with them
+   *
+   * @private
+   * @param {string} content serialized token cache
+   * @returns {Promise<void>}
+   * @memberof EncryptedCachePlugin
+   */
+  private async writeCacheFile(content: string): Promise<void> {
+    const key = await this.getKey(this.salt || crypto.randomBytes(SALT_LENGTH));
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(CIPHER_ALGORITHM, key, iv);
+    const data = Buffer.concat([cipher.update(content, 'utf8'), cipher.final()]);
+
+    const file: EncryptedCacheFile = {
+      data: data.toString('base64'),
+      iv: iv.toString('base64'),
+      salt: this.salt.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      version: CACHE_FILE_VERSION
+    };
+
+    // write to a temporary file first so the cache file is never left half written
+    const location = this.cacheLocation;
+    const tempLocation = `${location}.${process.pid}.tmp`;
+    await fs.promises.mkdir(path.dirname(location), { recursive: true, mode: 0o700 });
+    const handle = await fs.promises.open(tempLocation, 'w', 0o600);
+    try {
+      await handle.writeFile(JSON.stringify(file), 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.promises.rename(tempLocation, location);
+  }
+
+  /**
+   * Returns the encryption key for a salt, derived from the key option or the secret store
+   *
+   * @private
+   * @param {Buffer} salt
+   * @returns {Promise<Buffer>}
+   * @memberof EncryptedCachePlugin
+   */
+  private async getKey(salt: Buffer): Promise<Buffer> {
+    if (this.key && this.salt && this.salt.equals(salt)) {
+      return this.key;
+    }
+
+    const secret = await this.getSecret();
+    this.key = await new Promise<Buffer>((resolve, reject) => {
+      crypto.scrypt(secret, salt, KEY_LENGTH, (err, derivedKey) => (err ? reject(err) : resolve(derivedKey)));
+    });
+    this.salt = salt;
+    return this.key;
+  }
+
+  /**
+   * Returns the secret the key is derived from, generating it in the secret store if needed
+   *
+   * @private
+   * @returns {(Promise<string | Buffer>)}
+   * @memberof EncryptedCachePlugin
+   */
+  private async getSecret(): Promise<string | Buffer> {
+    if (this.options.key) {
+      return this.options.key;
+    }
+
+    let secret = await this.options.secretStore.getSecret();
+    if (!secret) {
+      secret = crypto.randomBytes(KEY_LENGTH).toString('base64');
+      await this.options.secretStore.setSecret(secret);
+    }
+    return secret;
+  }
+
+  /**
+   * Waits for the other cache accesses of this process, then locks the cache file for the other processes
+   *
+   * @private
+   * @param {TokenCacheContext} cacheContext the access holding the lock once acquired
+   * @returns {Promise<void>}
+   * @memberof EncryptedCachePlugin
+   */
+  private async lock(cacheContext: TokenCacheContext): Promise<void> {
+    const previousAccess = this.accessQueue;
+    let completeAccess: () => void;
+    this.accessQueue = new Promise<void>(resolve => (completeAccess = resolve));
+    await previousAccess;
+
+    const lockLocation = `${this.cacheLocation}.lock`;
+    const timeout = this.options.lockTimeout || CACHE_LOCK_TIMEOUT;
+    const start = Date.now();
+    try {
+      await fs.promises.mkdir(path.dirname(lockLocation), { recursive: true, mode: 0o700 });
+      while (true) {
+        try {
+          const handle = await fs.promises.open(lockLocation, 'wx', 0o600);
+          await handle.writeFile(String(process.pid), 'utf-8');
+          await handle.close();
+          this.locks.set(cacheContext, async () => {
+            try {
+              await fs.promises.unlink(lockLocation);
+            } catch (e) {
+              // the lock was removed as abandoned by another process
+            } finally {
+              completeAccess();
+            }
+          });
+          return;
+        } catch (e) {
+          if (e.code !== 'EEXIST') {
+            throw e;
+          }
+        }
+
+        if (Date.now() - start > timeout) {
+          if (!(await this.removeAbandonedLock(lockLocation, timeout))) {
+            throw new Error('Timed out waiting for the token cache lock');
+          }
+        } else {
+          await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_DELAY));
+        }
+      }
+    } catch (e) {
+      completeAccess();
+      throw e;
+    }
+  }
+
+  /**
+   * Removes the lock file if it is older than the timeout, returns true if it was removed
+   *
+   * @private
+   * @param {string} lockLocation
+   * @param {number} timeout
+   * @returns {Promise<boolean>}
+   * @memberof EncryptedCachePlugin
+   */
+  private async removeAbandonedLock(lockLocation: string, timeout: number): Promise<boolean> {
+    try {
+      const stats = await fs.promises.stat(lockLocation);
+      if (Date.now() - stats.mtimeMs <= timeout) {
+        return false;
+      }
+      await fs.promises.unlink(lockLocation);
+    } catch (e) {
+      if (e.code !== 'ENOENT') {
+        throw e;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Releases the lock of the cache file held by an access, if any, and lets the next cache access of this process start
+   *
+   * @private
+   * @param {TokenCacheContext} cacheContext
+   * @returns {Promise<void>}
+   * @memberof EncryptedCachePlugin
+   */
+  private async unlock(cacheContext: TokenCacheContext): Promise<void> {
+    const release = this.locks.get(cacheContext);
+    if (release) {
+      this.locks.delete(cacheContext);
+      await release();
+    }
+  }
+}
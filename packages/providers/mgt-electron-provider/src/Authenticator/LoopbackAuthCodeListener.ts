@@ -0,0 +1,148 @@
+/**
+ * -------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation.  All Rights Reserved.  Licensed under the MIT License.
+ * See License in the project root for license information.
+ * -------------------------------------------------------------------------------------------
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AuthCodeListener } from './AuthCodeListener';
+import { LOOPBACK_HOST, LOOPBACK_TIMEOUT } from './Constants';
+
+/**
+ * page shown in the browser once the auth code is received
+ */
+const SUCCESS_PAGE =
+  '<html><body>Authentication complete. You can close this window and return to the app.</body></html>';
+
+/**
+ * page shown in the browser when the authentication failed
+ */
+const ERROR_PAGE =
+  '<html><body>Authentication failed. You can close this window and try again from the app.</body></html>';
+
+/**
+ * LoopbackAuthCodeListener runs a short lived HTTP server on the loopback
+ * interface, on a random port, on which MSAL can listen for Auth Code responses
+ * sent by the system browser.
+ */
+export class LoopbackAuthCodeListener extends AuthCodeListener {
+  private server: http.Server;
+  private listening: Promise<number>;
+  private timeout: number;
+  private cancelWait: (error: Error) => void;
+
+  /**
+   * Constructor
+   * @param hostName - loopback address to listen on, 127.0.0.1 by default
+   * @param timeout - time (in ms) to wait for the auth code response, 5 minutes by default
+   */
+  constructor(hostName: string = LOOPBACK_HOST, timeout: number = LOOPBACK_TIMEOUT) {
+    super(hostName);
+    this.timeout = timeout;
+  }
+
+  /**
+   * Starts the server on a random port
+   */
+  public start(): void {
+    if (this.server) {
+      return;
+    }
+
+    this.server = http.createServer();
+    this.listening = new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(0, this.host, () => resolve((this.server.address() as AddressInfo).port));
+    });
+  }
+
+  /**
+   * Stops the server, the pending wait for the auth code, if any, is rejected
+   */
+  public close(): void {
+    if (this.cancelWait) {
+      this.cancelWait(new Error('The listener was closed before the Auth Code response was received'));
+    }
+    if (this.server) {
+      this.server.close();
+      this.server = null;
+      this.listening = null;
+    }
+  }
+
+  /**
+   * Returns the redirect uri of the server (ex: http://127.0.0.1:51234), once it is listening
+   *
+   * @returns {Promise<string>}
+   * @memberof LoopbackAuthCodeListener
+   */
+  public async getRedirectUri(): Promise<string> {
+    const port = await this.listening;
+    return `http://${this.host}:${port}`;
+  }
+
+  /**
+   * Waits for the Auth Code response. Responses whose state doesn't match the state of the request are ignored.
+   * Rejects when the response has an error, after the timeout or when the listener is closed
+   *
+   * @param {string} state state sent with the authorization request
+   * @returns {Promise<string>} the auth code
+   * @memberof LoopbackAuthCodeListener
+   */
+  public waitForAuthCode(state: string): Promise<string> {
+    const server = this.server;
+    return new Promise((resolve, reject) => {
+      const onRequest = (req: http.IncomingMessage, res: http.ServerResponse) => {
+        const redirectUrl = new URL(req.url, `http://${this.host}`);
+        const code = redirectUrl.searchParams.get('code');
+        const error = redirectUrl.searchParams.get('error');
+        if (redirectUrl.pathname !== '/' || (!code && !error)) {
+          // ex: favicon
+          res.writeHead(404);
+          res.end();
+          return;
+        }
+
+        if (redirectUrl.searchParams.get('state') !== state) {
+          // not the response to this request (ex: a stale or forged redirect), keep waiting for it
+          res.writeHead(400, { 'Content-Type': 'text/html' });
+          res.end(ERROR_PAGE);
+          return;
+        }
+
+        const result: Error | string = error
+          ? new Error(`${error}: ${redirectUrl.searchParams.get('error_description')}`)
+          : code;
+
+        res.writeHead(typeof result === 'string' ? 200 : 400, { 'Content-Type': 'text/html' });
+        res.end(typeof result === 'string' ? SUCCESS_PAGE : ERROR_PAGE);
+
+        stopWaiting();
+        if (typeof result === 'string') {
+          resolve(result);
+        } else {
+          reject(result);
+        }
+      };
+
+      const stopWaiting = () => {
+        clearTimeout(timer);
+        server.removeListener('request', onRequest);
+        this.cancelWait = null;
+      };
+
+      const timer = setTimeout(() => {
+        stopWaiting();
+        reject(new Error('Timed out waiting for the Auth Code response'));
+      }, this.timeout);
+
+      this.cancelWait = error => {
+        stopWaiting();
+        reject(error);
+      };
+      server.on('request', onRequest);
+    });
+  }
+}
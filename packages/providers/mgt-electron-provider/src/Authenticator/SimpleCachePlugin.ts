@@ -69,6 +69,7 @@ const afterCacheAccess = async cacheContext => {
 /**
  *  PLEASE DO NOT USE THIS IN PRODUCTION ENVIRONMENTS.
  *
+ * @deprecated use the EncryptedCachePlugin, or set cacheOptions in the MsalElectronConfig
  */
 export const SimpleCachePlugin = {
   beforeCacheAccess,
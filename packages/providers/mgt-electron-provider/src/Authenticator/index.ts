@@ -6,4 +6,6 @@
  */
 
 export * from './ElectronAuthenticator';
+export * from './EncryptedCachePlugin';
+export * from './LoopbackAuthCodeListener';
 export * from './SimpleCachePlugin';
@@ -5,9 +5,20 @@
  * -------------------------------------------------------------------------------------------
  */
 
-import { IProvider, Providers, ProviderState, createFromProvider } from '@microsoft/mgt-element';
+import {
+  EventDispatcher,
+  EventHandler,
+  IProvider,
+  Providers,
+  ProviderState,
+  ProviderErrorReason,
+  createFromProvider
+} from '@microsoft/mgt-element';
 import { AuthenticationProviderOptions } from '@microsoft/microsoft-graph-client/lib/es/IAuthenticationProviderOptions';
 import { ipcRenderer } from 'electron';
+import { DeviceCodeInfo } from '../Shared/DeviceCodeInfo';
+
+export { DeviceCodeInfo };
 
 /**
  * ElectronProvider class to be instantiated in the renderer process.
@@ -28,6 +39,9 @@ export class ElectronProvider extends IProvider {
     return 'MgtElectronProvider';
   }
 
+  private _deviceCodeDispatcher: EventDispatcher<DeviceCodeInfo> = new EventDispatcher();
+  private _isLoginCancelled: boolean = false;
+
   constructor() {
     super();
     this.graph = createFromProvider(this);
@@ -47,6 +61,30 @@ export class ElectronProvider extends IProvider {
         Providers.globalProvider.setState(ProviderState.SignedOut);
       }
     });
+    ipcRenderer.on('mgtDeviceCode', (event, info: DeviceCodeInfo) => {
+      this._deviceCodeDispatcher.fire(info);
+    });
+  }
+
+  /**
+   * Event called with the device code to display when users sign in with a device code.
+   * The provider stays in the Loading state until users sign in or the code expires
+   *
+   * @param {EventHandler<DeviceCodeInfo>} eventHandler
+   * @memberof ElectronProvider
+   */
+  public onDeviceCode(eventHandler: EventHandler<DeviceCodeInfo>) {
+    this._deviceCodeDispatcher.add(eventHandler);
+  }
+
+  /**
+   * Removes an event handler of the device code
+   *
+   * @param {EventHandler<DeviceCodeInfo>} eventHandler
+   * @memberof ElectronProvider
+   */
+  public removeDeviceCodeListener(eventHandler: EventHandler<DeviceCodeInfo>) {
+    this._deviceCodeDispatcher.remove(eventHandler);
   }
 
   /**
@@ -69,7 +107,32 @@ export class ElectronProvider extends IProvider {
    */
   async login(): Promise<void> {
     Providers.globalProvider.setState(ProviderState.Loading);
-    await ipcRenderer.invoke('login');
+    this._isLoginCancelled = false;
+    try {
+      await ipcRenderer.invoke('login');
+    } catch (e) {
+      if (this._isLoginCancelled) {
+        // the main process already signed out the provider
+        throw e;
+      }
+      Providers.globalProvider.setState(ProviderState.Error, {
+        error: e,
+        message: e && e.message,
+        reason: ProviderErrorReason.LoginFailed
+      });
+      throw e;
+    }
+  }
+
+  /**
+   * Stops waiting for users to sign in with the device code, the provider is then signed out
+   *
+   * @return {*}  {Promise<void>}
+   * @memberof ElectronProvider
+   */
+  async cancelLogin(): Promise<void> {
+    this._isLoginCancelled = true;
+    await ipcRenderer.invoke('cancelLogin');
   }
 
   /**
@@ -0,0 +1,47 @@
+/**
+ * -------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation.  All Rights Reserved.  Licensed under the MIT License.
+ * See License in the project root for license information.
+ * -------------------------------------------------------------------------------------------
+ */
+
+/**
+ * Device code to display to users signing in with ElectronLoginType.DeviceCode,
+ * sent by the ElectronAuthenticator in the main process to the ElectronProvider in the renderer
+ *
+ * @export
+ * @interface DeviceCodeInfo
+ */
+export interface DeviceCodeInfo {
+  /**
+   * Code users enter at the verification uri
+   *
+   * @type {string}
+   * @memberof DeviceCodeInfo
+   */
+  userCode: string;
+
+  /**
+   * Uri where users sign in (ex: https://microsoft.com/devicelogin)
+   *
+   * @type {string}
+   * @memberof DeviceCodeInfo
+   */
+  verificationUri: string;
+
+  /**
+   * Instructions to display to users, in the language of the request
+   *
+   * @type {string}
+   * @memberof DeviceCodeInfo
+   */
+  message: string;
+
+  /**
+   * Time (in seconds) before the code expires
+   *
+   * @type {number}
+   * @memberof DeviceCodeInfo
+   */
+  expiresIn: number;
+}
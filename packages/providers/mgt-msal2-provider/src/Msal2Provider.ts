@@ -2,9 +2,14 @@ import {
   IProvider,
   LoginType,
   ProviderState,
+  ProviderError,
+  ProviderErrorReason,
   createFromProvider,
   Providers,
-  IProviderAccount
+  IProviderAccount,
+  getAuthorityHost,
+  MICROSOFT_GRAPH_DEFAULT_ENDPOINT,
+  prefixScopes
 } from '@microsoft/mgt-element';
 import {
   Configuration,
@@ -35,7 +40,8 @@ interface Msal2ConfigBase {
   redirectUri?: string;
 
   /**
-   * Authority URL
+   * Authority URL.
+   * Defaults to the national cloud of Providers.baseUrl
    *
    * @type {string}
    * @memberof Msal2Config
@@ -101,6 +107,14 @@ interface Msal2ConfigBase {
    * @memberof Msal2ConfigBase
    */
   isIncrementalConsentDisabled?: boolean;
+
+  /**
+   * Enables signing in several accounts at once and switching between them, false by default
+   *
+   * @type {boolean}
+   * @memberof Msal2ConfigBase
+   */
+  isMultiAccountEnabled?: boolean;
 }
 
 /**
@@ -270,6 +284,9 @@ export class Msal2Provider extends IProvider {
 
     if (config.authority) {
       this.ms_config.auth.authority = config.authority;
+    } else if (!this.ms_config.auth.authority && Providers.baseUrl !== MICROSOFT_GRAPH_DEFAULT_ENDPOINT) {
+      // sign in to the national cloud of the Graph endpoint
+      this.ms_config.auth.authority = `${getAuthorityHost(Providers.baseUrl)}/common`;
     }
     if (config.redirectUri) {
       this.ms_config.auth.redirectUri = config.redirectUri;
@@ -297,8 +314,10 @@ export class Msal2Provider extends IProvider {
     this._sid = typeof config.sid !== 'undefined' ? config.sid : null;
     this.isIncrementalConsentDisabled =
       typeof config.isIncrementalConsentDisabled !== 'undefined' ? config.isIncrementalConsentDisabled : false;
+    this.isMultipleAccountDisabled =
+      typeof config.isMultiAccountEnabled !== 'undefined' ? !config.isMultiAccountEnabled : true;
     this._domainHint = typeof config.domainHint !== 'undefined' ? config.domainHint : null;
-    this.scopes = typeof config.scopes !== 'undefined' ? config.scopes : ['user.read'];
+    this.scopes = prefixScopes(...(typeof config.scopes !== 'undefined' ? config.scopes : ['user.read']));
     this._prompt = typeof config.prompt !== 'undefined' ? config.prompt : PromptType.SELECT_ACCOUNT;
     this.graph = createFromProvider(this);
     try {
@@ -309,6 +328,7 @@ export class Msal2Provider extends IProvider {
         this.trySilentSignIn();
       }
     } catch (e) {
+      this.setErrorState(e, false);
       throw e;
     }
   }
@@ -333,13 +353,18 @@ export class Msal2Provider extends IProvider {
           this.handleResponse(response?.account);
         }
       } catch (e) {
-        this.setState(ProviderState.SignedOut);
+        this.setErrorState(e, true);
       }
     } else {
       const account: AccountInfo = this.getAccount();
       if (account) {
-        if (await this.getAccessToken(null)) {
-          this.handleResponse(account);
+        try {
+          if (await this.getAccessToken(null)) {
+            this.handleResponse(account);
+            return;
+          }
+        } catch (e) {
+          this.setErrorState(e, true);
           return;
         }
       }
@@ -361,7 +386,16 @@ export class Msal2Provider extends IProvider {
       domainHint: this._domainHint
     };
     if (this._loginType == LoginType.Popup) {
-      const response = await this._publicClientApplication.loginPopup(loginRequest);
+      let response: AuthenticationResult;
+      try {
+        response = await this._publicClientApplication.loginPopup(loginRequest);
+      } catch (e) {
+        // failing to add another account doesn't sign out the active one
+        if (this.state !== ProviderState.SignedIn) {
+          this.setErrorState(e, false);
+        }
+        throw e;
+      }
       this.handleResponse(response?.account);
     } else {
       const loginRedirectRequest: RedirectRequest = { ...loginRequest };
@@ -378,11 +412,34 @@ export class Msal2Provider extends IProvider {
   public getAllAccounts() {
     let usernames = [];
     this._publicClientApplication.getAllAccounts().forEach((account: AccountInfo) => {
-      usernames.push({ username: account.username, id: account.homeAccountId } as IProviderAccount);
+      usernames.push({
+        username: account.username,
+        name: account.name,
+        id: account.homeAccountId,
+        tenantId: account.tenantId
+      } as IProviderAccount);
     });
     return usernames;
   }
 
+  /**
+   * Get the account currently used to acquire tokens
+   *
+   * @return {*}  {IProviderAccount}
+   * @memberof Msal2Provider
+   */
+  public getActiveAccount(): IProviderAccount {
+    const account = this._publicClientApplication && this._publicClientApplication.getActiveAccount();
+    return account
+      ? ({
+          username: account.username,
+          name: account.name,
+          id: account.homeAccountId,
+          tenantId: account.tenantId
+        } as IProviderAccount)
+      : null;
+  }
+
   /**
    * Switching between accounts
    *
@@ -414,6 +471,52 @@ export class Msal2Provider extends IProvider {
     this.clearRequestedScopes();
   }
 
+  /**
+   * Maps an error thrown by MSAL to the reason of the failed sign in,
+   * returns null when the user cancelled the sign in
+   *
+   * @protected
+   * @param {*} e error thrown by MSAL
+   * @param {boolean} silent whether the error was thrown while signing in without interaction
+   * @return {*}  {ProviderError}
+   * @memberof Msal2Provider
+   */
+  protected getProviderError(e: any, silent: boolean): ProviderError {
+    const errorCode: string = (e && e.errorCode) || '';
+    const message: string = (e && (e.errorMessage || e.message)) || '';
+    let reason: ProviderErrorReason;
+    if (errorCode === 'user_cancelled') {
+      return null;
+    } else if (errorCode === 'popup_window_error' || errorCode === 'empty_window_error') {
+      reason = ProviderErrorReason.PopupBlocked;
+    } else if (errorCode === 'access_denied' || message.indexOf('AADSTS65004') !== -1) {
+      reason = ProviderErrorReason.ConsentDenied;
+    } else if (e instanceof InteractionRequiredAuthError || errorCode === 'invalid_grant') {
+      reason = ProviderErrorReason.RefreshTokenExpired;
+    } else {
+      reason = silent ? ProviderErrorReason.SilentSignInFailed : ProviderErrorReason.LoginFailed;
+    }
+    return { reason, message, error: e };
+  }
+
+  /**
+   * Sets the state to ProviderState.Error with the reason of the error,
+   * or to ProviderState.SignedOut when the user cancelled the sign in
+   *
+   * @private
+   * @param {*} e error thrown by MSAL
+   * @param {boolean} silent whether the error was thrown while signing in without interaction
+   * @memberof Msal2Provider
+   */
+  private setErrorState(e: any, silent: boolean) {
+    const error = this.getProviderError(e, silent);
+    if (error) {
+      this.setState(ProviderState.Error, error);
+    } else {
+      this.setState(ProviderState.SignedOut);
+    }
+  }
+
   /**
    * Store the currently signed in account in storage
    *
@@ -549,7 +652,8 @@ export class Msal2Provider extends IProvider {
   }
 
   /**
-   * Logs out user
+   * Logs out the active account. When multiple accounts are enabled and other accounts
+   * are signed in, the first of them becomes the active account
    *
    * @memberof Msal2Provider
    */
@@ -564,10 +668,41 @@ export class Msal2Provider extends IProvider {
       this.setState(ProviderState.SignedOut);
     } else {
       await this._publicClientApplication.logoutPopup({ ...logOutRequest });
-      this.setState(ProviderState.SignedOut);
+      const remainingAccounts = this.isMultiAccountSupportedAndEnabled
+        ? this._publicClientApplication.getAllAccounts()
+        : [];
+      if (remainingAccounts.length) {
+        if (logOutAccount) {
+          // the provider stays signed in, clear the cached data of the signed out account
+          this.fireAccountRemoved({
+            id: logOutAccount.homeAccountId,
+            username: logOutAccount.username
+          } as IProviderAccount);
+        }
+        this.handleResponse(remainingAccounts[0]);
+      } else {
+        this.setState(ProviderState.SignedOut);
+      }
     }
   }
 
+  /**
+   * Logs out all signed in accounts. The other accounts are removed from the app
+   * and the session of the active account is ended
+   *
+   * @memberof Msal2Provider
+   */
+  public async logoutAll() {
+    const activeAccount = this._publicClientApplication.getActiveAccount();
+    for (const account of this._publicClientApplication.getAllAccounts()) {
+      if (!activeAccount || account.homeAccountId !== activeAccount.homeAccountId) {
+        await this._publicClientApplication.logoutRedirect({ account, onRedirectNavigate: () => false });
+        this.fireAccountRemoved({ id: account.homeAccountId, username: account.username } as IProviderAccount);
+      }
+    }
+    await this.logout();
+  }
+
   /**
    * Returns access token for scopes
    *
@@ -607,7 +742,7 @@ export class Msal2Provider extends IProvider {
         }
       } else {
         // if we don't know what the error is, just ask the user to sign in again
-        this.setState(ProviderState.SignedOut);
+        this.setErrorState(e, true);
       }
     }
 
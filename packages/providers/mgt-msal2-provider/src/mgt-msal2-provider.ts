@@ -90,6 +90,17 @@ export class MgtMsal2Provider extends MgtBaseProvider {
   })
   public isIncrementalConsentDisabled: boolean;
 
+  /**
+   * Enables signing in several accounts at once and switching between them
+   *
+   * @memberof MgtMsal2Provider
+   */
+  @property({
+    attribute: 'multi-account-enabled',
+    type: Boolean
+  })
+  public isMultiAccountEnabled: boolean;
+
   /**
    * Gets whether this provider can be used in this environment
    *
@@ -144,6 +155,10 @@ export class MgtMsal2Provider extends MgtBaseProvider {
         config.isIncrementalConsentDisabled = true;
       }
 
+      if (this.isMultiAccountEnabled) {
+        config.isMultiAccountEnabled = true;
+      }
+
       this.provider = new Msal2Provider(config);
       Providers.globalProvider = this.provider;
     }
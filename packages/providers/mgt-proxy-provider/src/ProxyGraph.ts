@@ -15,6 +15,10 @@ import {
 } from '@microsoft/microsoft-graph-client';
 import { Graph, chainMiddleware } from '@microsoft/mgt-element';
 import { SdkVersionMiddleware } from '@microsoft/mgt-element/dist/es6/utils/SdkVersionMiddleware';
+import {
+  RequestAttemptMiddleware,
+  RequestTelemetryMiddleware
+} from '@microsoft/mgt-element/dist/es6/utils/RequestTelemetryMiddleware';
 import { PACKAGE_VERSION } from '@microsoft/mgt-element/dist/es6/utils/version';
 import { CustomHeaderMiddleware } from './CustomHeaderMiddleware';
 
@@ -29,7 +33,9 @@ import { CustomHeaderMiddleware } from './CustomHeaderMiddleware';
 export class ProxyGraph extends Graph {
   constructor(baseUrl: string, getCustomHeaders: () => Promise<object>) {
     const middleware: Middleware[] = [
+      new RequestTelemetryMiddleware(),
       new RetryHandler(new RetryHandlerOptions()),
+      new RequestAttemptMiddleware(),
       new TelemetryHandler(),
       new SdkVersionMiddleware(PACKAGE_VERSION),
       new CustomHeaderMiddleware(getCustomHeaders),
@@ -40,7 +46,9 @@ export class ProxyGraph extends Graph {
       Client.initWithMiddleware({
         baseUrl,
         middleware: chainMiddleware(...middleware)
-      })
+      }),
+      undefined,
+      baseUrl
     );
   }
 }
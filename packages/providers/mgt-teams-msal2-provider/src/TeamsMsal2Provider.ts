@@ -7,7 +7,7 @@
 
 import { AuthenticationProviderOptions } from '@microsoft/microsoft-graph-client/lib/es/IAuthenticationProviderOptions';
 import { Configuration, InteractionRequiredAuthError, SilentRequest } from '@azure/msal-browser';
-import { LoginType, ProviderState, TeamsHelper } from '@microsoft/mgt-element';
+import { LoginType, ProviderErrorReason, ProviderState, TeamsHelper } from '@microsoft/mgt-element';
 import { Msal2Provider, PromptType } from '@microsoft/mgt-msal2-provider';
 
 // tslint:disable-next-line: completed-docs
@@ -280,6 +280,9 @@ export class TeamsMsal2Provider extends Msal2Provider {
         } catch (e) {
           teams.authentication.notifyFailure(e);
         }
+      } else if (provider.state === ProviderState.Error) {
+        const error = provider.lastError;
+        teams.authentication.notifyFailure(error.message || ProviderErrorReason[error.reason]);
       }
     };
 